@@ -0,0 +1,675 @@
+import type {
+	BindOptions,
+	CropEngineOptions,
+	CropPoints,
+	CroppieData,
+	FlipDirection,
+	FlipState,
+	PointsArray,
+	ResultOptions,
+	SetDataOptions,
+	StraightenConfig,
+	TransformState,
+	Viewport,
+	ZoomConfig,
+} from "./types.ts";
+
+import {
+	type Canvas2DLike,
+	type CanvasFactory,
+	type CropSource,
+	type DrawOptions,
+	type PathFactory,
+	drawCroppedImage,
+} from "./canvas/index.ts";
+import {
+	calculateBounds,
+	calculateInitialZoom,
+	clamp,
+	getCornerRadius,
+	getExifTransform,
+	getOrientedDimensions,
+	getRotatedBoundingBox,
+	getViewportPath,
+	isEllipticalViewport,
+	normalizeOrientation,
+	normalizePoints,
+	pointsToTransform,
+	rotateVector,
+} from "./utils/index.ts";
+
+const DEFAULT_ZOOM: ZoomConfig = {
+	min: 0.1,
+	max: 10,
+};
+
+const DEFAULT_STRAIGHTEN: StraightenConfig = {
+	min: -45,
+	max: 45,
+};
+
+/**
+ * The crop geometry of Croppie without the DOM: transform state, bounds, points and zoom.
+ *
+ * Croppie renders and drives an engine; on its own it can replay crop data against the
+ * original image, e.g. on a server with a canvas library.
+ *
+ * @example
+ * ```ts
+ * const engine = new CropEngine({ viewport: { width: 200, height: 200, type: 'circle' } })
+ * engine.setImage(image.width, image.height)
+ * engine.setData(dataFromClient)
+ * const canvas = engine.draw(image, { size: { width: 800, height: 800 } }, createCanvas)
+ * ```
+ */
+export class CropEngine {
+	/** Zoom limits, with defaults applied */
+	readonly zoomConfig: ZoomConfig;
+	/** Straighten angle limits, with defaults applied */
+	readonly straightenConfig: StraightenConfig;
+
+	private viewportState: Viewport;
+	private image: { width: number; height: number } | null = null;
+	private transform: TransformState = { x: 0, y: 0, scale: 1, angle: 0 };
+	private orientationState = 0;
+	private flipState: FlipState = { horizontal: false, vertical: false };
+	private exifTransform = getExifTransform(1);
+	private effectiveMinZoom = 0.1;
+
+	constructor(options: CropEngineOptions) {
+		this.viewportState = { ...options.viewport };
+		if (this.viewportState.path && !this.viewportState.viewBox) {
+			// Keep the path's coordinates relative to the configured size when the viewport is resized
+			this.viewportState.viewBox = {
+				width: this.viewportState.width,
+				height: this.viewportState.height,
+			};
+		}
+
+		this.zoomConfig = {
+			...DEFAULT_ZOOM,
+			...options.zoom,
+		};
+
+		this.straightenConfig = {
+			...DEFAULT_STRAIGHTEN,
+			...options.straighten,
+		};
+	}
+
+	/**
+	 * The viewport, with its current size
+	 */
+	get viewport(): Readonly<Viewport> {
+		return this.viewportState;
+	}
+
+	/**
+	 * Whether an image has been set
+	 */
+	get hasImage(): boolean {
+		return this.image !== null;
+	}
+
+	/**
+	 * Gets the current zoom level
+	 */
+	get zoom(): number {
+		return this.transform.scale;
+	}
+
+	/**
+	 * Gets the lowest zoom allowed for the current image, orientation and angle
+	 */
+	get minZoom(): number {
+		return this.effectiveMinZoom;
+	}
+
+	/**
+	 * Gets the current straighten angle in degrees
+	 */
+	get angle(): number {
+		return this.transform.angle;
+	}
+
+	/**
+	 * Gets the current rotation in multiples of 90 degrees
+	 */
+	get orientation(): number {
+		return this.orientationState;
+	}
+
+	/**
+	 * Gets the offset of the image center from the viewport center, the zoom and the angle
+	 */
+	getTransform(): TransformState {
+		return { ...this.transform };
+	}
+
+	/**
+	 * Gets the mirroring applied to the image before its rotation
+	 */
+	getFlip(): FlipState {
+		return { ...this.flipState };
+	}
+
+	/**
+	 * Sets the image to crop, fitted to cover the viewport like `Croppie.bind()`
+	 *
+	 * @param width - Image width in pixels, before any orientation
+	 * @param height - Image height in pixels, before any orientation
+	 * @param options - Initial points and zoom, and the EXIF orientation (1-8) to display the image upright
+	 */
+	setImage(
+		width: number,
+		height: number,
+		options: Omit<BindOptions, "url"> = {},
+	): void {
+		this.image = { width, height };
+
+		// Display the image upright before fitting it to the viewport
+		this.exifTransform = getExifTransform(options.orientation ?? 1);
+		this.orientationState = this.exifTransform.rotation;
+		this.flipState = { ...this.exifTransform.flip };
+		this.transform.angle = 0;
+
+		// Calculate minimum zoom to cover viewport
+		const coverageZoom = this.updateEffectiveMinZoom();
+
+		// Center on the initial points if provided, otherwise on the image
+		this.transform = { x: 0, y: 0, scale: coverageZoom, angle: 0 };
+		this.applyCrop(normalizePoints(options.points), options.zoom);
+
+		this.constrainPosition();
+	}
+
+	/**
+	 * Removes the image
+	 */
+	clearImage(): void {
+		this.image = null;
+	}
+
+	/**
+	 * Gets the current crop data
+	 */
+	get(): CroppieData {
+		return {
+			points: this.getPoints(),
+			zoom: this.transform.scale,
+			orientation: this.orientationState,
+			angle: this.transform.angle,
+			flip: { ...this.flipState },
+		};
+	}
+
+	/**
+	 * Calculates the crop points based on current transform
+	 */
+	getPoints(): CropPoints {
+		if (!this.image) {
+			return { topLeftX: 0, topLeftY: 0, bottomRightX: 0, bottomRightY: 0 };
+		}
+
+		const viewport = this.viewportState;
+		const { width: imageWidth, height: imageHeight } = this.getRotatedSize();
+
+		// Calculate the visible area in (rotated) image coordinates, relative to the viewport
+		const scaledWidth = imageWidth * this.transform.scale;
+		const scaledHeight = imageHeight * this.transform.scale;
+
+		const imageLeft = (viewport.width - scaledWidth) / 2 + this.transform.x;
+		const imageTop = (viewport.height - scaledHeight) / 2 + this.transform.y;
+
+		// Convert viewport coordinates to image coordinates
+		const topLeftX = -imageLeft / this.transform.scale;
+		const topLeftY = -imageTop / this.transform.scale;
+		const bottomRightX = topLeftX + viewport.width / this.transform.scale;
+		const bottomRightY = topLeftY + viewport.height / this.transform.scale;
+
+		return {
+			topLeftX: Math.max(0, topLeftX),
+			topLeftY: Math.max(0, topLeftY),
+			bottomRightX: Math.min(imageWidth, bottomRightX),
+			bottomRightY: Math.min(imageHeight, bottomRightY),
+		};
+	}
+
+	/**
+	 * Returns the size of the frame crop points are expressed in: the bounding box of the
+	 * image after orientation and straighten angle
+	 */
+	getRotatedSize(): { width: number; height: number } {
+		return getRotatedBoundingBox(
+			this.image?.width ?? 0,
+			this.image?.height ?? 0,
+			this.orientationState + this.transform.angle,
+		);
+	}
+
+	/**
+	 * Moves the image center to the given offset from the viewport center, constrained to
+	 * keep the image covering the viewport
+	 */
+	moveTo(x: number, y: number): void {
+		this.transform.x = x;
+		this.transform.y = y;
+		this.constrainPosition();
+	}
+
+	/**
+	 * Sets the zoom level, clamped to the allowed range
+	 *
+	 * @param value - The zoom level
+	 * @param anchor - Point to keep in place, as an offset from the viewport center; without
+	 *   it the image offset is kept
+	 */
+	setZoom(value: number, anchor?: { x: number; y: number }): void {
+		const previousZoom = this.transform.scale;
+		this.transform.scale = clamp(
+			value,
+			this.effectiveMinZoom,
+			this.zoomConfig.max,
+		);
+
+		if (anchor) {
+			const ratio = this.transform.scale / previousZoom;
+			this.transform.x = anchor.x + (this.transform.x - anchor.x) * ratio;
+			this.transform.y = anchor.y + (this.transform.y - anchor.y) * ratio;
+		}
+		this.constrainPosition();
+	}
+
+	/**
+	 * Sets the free rotation (straighten angle) in degrees, clamped to the straighten limits
+	 *
+	 * The point at the center of the viewport is kept in place; zoom is raised if the tilted
+	 * image would no longer cover the viewport.
+	 */
+	setAngle(value: number): void {
+		const angle = clamp(
+			value,
+			this.straightenConfig.min,
+			this.straightenConfig.max,
+		);
+		if (angle === this.transform.angle) return;
+
+		this.setAngleState(angle);
+		this.clampZoom();
+		this.constrainPosition();
+	}
+
+	/**
+	 * Rotates the image clockwise by 90 degree increments (negative values rotate counter-clockwise).
+	 *
+	 * The point at the center of the viewport is kept in place; zoom is raised if the
+	 * rotated image would no longer cover the viewport.
+	 */
+	rotate(degrees: 90 | 180 | 270 | -90): void {
+		if (!this.image) return;
+
+		this.setOrientation(this.orientationState + degrees);
+		this.clampZoom();
+		this.constrainPosition();
+	}
+
+	/**
+	 * Mirrors the image as displayed
+	 *
+	 * The crop is mirrored along with the image. The orientation is unchanged; the straighten
+	 * angle is negated so the image keeps its tilt relative to the viewport.
+	 */
+	flip(direction: FlipDirection): void {
+		if (!this.image) return;
+
+		const horizontal = direction === "horizontal";
+
+		// The flip state applies before the rotation: on a quarter-turned image, mirroring
+		// across the screen's horizontal axis is a vertical flip of the unrotated image
+		if (horizontal !== (this.orientationState % 180 !== 0)) {
+			this.flipState.horizontal = !this.flipState.horizontal;
+		} else {
+			this.flipState.vertical = !this.flipState.vertical;
+		}
+
+		if (horizontal) {
+			this.transform.x = -this.transform.x;
+		} else {
+			this.transform.y = -this.transform.y;
+		}
+		this.transform.angle = -this.transform.angle;
+
+		// Asymmetric straighten limits may not allow the mirrored angle
+		this.setAngleState(
+			clamp(
+				this.transform.angle,
+				this.straightenConfig.min,
+				this.straightenConfig.max,
+			),
+		);
+		this.clampZoom();
+		this.constrainPosition();
+	}
+
+	/**
+	 * Moves the viewport to the given crop points
+	 */
+	setPoints(points: CropPoints | PointsArray): void {
+		this.setData({ points });
+	}
+
+	/**
+	 * Applies a crop state, e.g. one returned by `get()` or `Croppie.get()`
+	 *
+	 * `orientation`, `angle` and `flip` are applied first, so `points` are read in the rotated
+	 * frame. `points` are centered in the viewport, and `zoom` takes precedence over the zoom
+	 * derived from them. Omitted fields keep their current value; changing only `zoom` keeps
+	 * the point under the viewport center in place.
+	 */
+	setData(data: SetDataOptions): void {
+		if (!this.image) return;
+
+		if (data.orientation !== undefined) {
+			this.setOrientation(data.orientation);
+		}
+		if (data.angle !== undefined) {
+			this.setAngleState(
+				clamp(data.angle, this.straightenConfig.min, this.straightenConfig.max),
+			);
+		}
+		if (data.flip) {
+			this.flipState = { ...data.flip };
+		}
+
+		this.applyCrop(normalizePoints(data.points), data.zoom);
+		this.constrainPosition();
+	}
+
+	/**
+	 * Restores the orientation of the image and fits it to the viewport again
+	 */
+	reset(): void {
+		if (!this.image) return;
+
+		this.orientationState = this.exifTransform.rotation;
+		this.flipState = { ...this.exifTransform.flip };
+		this.transform.angle = 0;
+		const coverageZoom = this.updateEffectiveMinZoom();
+
+		this.transform = {
+			x: 0,
+			y: 0,
+			scale: clamp(coverageZoom, this.effectiveMinZoom, this.zoomConfig.max),
+			angle: 0,
+		};
+		this.constrainPosition();
+	}
+
+	/**
+	 * Resizes the viewport (kept centered) to whole pixels and re-applies the zoom and position constraints
+	 */
+	setViewportSize(width: number, height: number): void {
+		this.viewportState = {
+			...this.viewportState,
+			width: Math.round(width),
+			height: Math.round(height),
+		};
+
+		if (this.image) {
+			this.updateEffectiveMinZoom();
+			this.clampZoom();
+			this.constrainPosition();
+		}
+	}
+
+	/**
+	 * Converts a result size option to output dimensions in pixels
+	 */
+	getOutputSize(size: ResultOptions["size"]): {
+		width: number;
+		height: number;
+	} {
+		if (size === "original") {
+			const points = this.getPoints();
+			return {
+				width: points.bottomRightX - points.topLeftX,
+				height: points.bottomRightY - points.topLeftY,
+			};
+		}
+		if (size && size !== "viewport") {
+			return { width: size.width, height: size.height };
+		}
+		return {
+			width: this.viewportState.width,
+			height: this.viewportState.height,
+		};
+	}
+
+	/**
+	 * Collects the mask, background, rotation, flip and resampling for drawing the crop at an
+	 * output size; the viewport shape is used unless `options.circle` overrides it
+	 */
+	getDrawOptions(
+		options: Pick<ResultOptions, "circle" | "backgroundColor" | "resample">,
+		outputWidth: number,
+		outputHeight: number,
+	): DrawOptions {
+		const viewport = this.viewportState;
+
+		// An explicit circle option replaces the viewport shape; the corner radius scales with the output
+		const useViewportShape = options.circle === undefined;
+		const path = useViewportShape ? getViewportPath(viewport) : null;
+		const cornerRadius = useViewportShape ? getCornerRadius(viewport) : 0;
+		return {
+			path: path ?? undefined,
+			circle: options.circle ?? isEllipticalViewport(viewport),
+			cornerRadius:
+				cornerRadius > 0
+					? {
+							x: (cornerRadius * outputWidth) / viewport.width,
+							y: (cornerRadius * outputHeight) / viewport.height,
+						}
+					: undefined,
+			backgroundColor: options.backgroundColor,
+			rotation: this.orientationState + this.transform.angle,
+			flip: { ...this.flipState },
+			resample: options.resample,
+		};
+	}
+
+	/**
+	 * Draws the current crop of an image onto a new canvas
+	 *
+	 * @param image - The image whose size was given to `setImage()`
+	 * @param options - Output size, mask, background and resampling, as for `Croppie.result()`
+	 * @param createCanvas - Creates the output canvas, e.g. a server canvas library's; defaults to a DOM canvas
+	 * @param createPath - Creates the clip path of a path viewport; defaults to the global `Path2D`
+	 * @throws If no image has been set, or the viewport has a path and there is no way to create it
+	 */
+	draw<C extends Canvas2DLike = HTMLCanvasElement>(
+		image: CropSource,
+		options: Pick<
+			ResultOptions,
+			"size" | "circle" | "backgroundColor" | "resample"
+		> = {},
+		createCanvas?: CanvasFactory<C>,
+		createPath?: PathFactory,
+	): C {
+		if (!this.image) {
+			throw new Error("No image set");
+		}
+
+		const { width, height } = this.getOutputSize(options.size);
+		return drawCroppedImage(image, this.getPoints(), width, height, {
+			...this.getDrawOptions(options, width, height),
+			createCanvas,
+			createPath,
+		});
+	}
+
+	/**
+	 * Returns the image dimensions after the 90° orientation
+	 */
+	private getOrientedSize(): { width: number; height: number } {
+		return getOrientedDimensions(
+			this.image?.width ?? 0,
+			this.image?.height ?? 0,
+			this.orientationState,
+		);
+	}
+
+	/**
+	 * Recalculates the effective minimum zoom for the current image and orientation
+	 *
+	 * @returns The zoom at which the image exactly covers the viewport
+	 */
+	private updateEffectiveMinZoom(): number {
+		const { width, height } = this.getOrientedSize();
+
+		// A tilted image must cover the viewport's bounding box in the image's axes
+		const viewport = getRotatedBoundingBox(
+			this.viewportState.width,
+			this.viewportState.height,
+			this.transform.angle,
+		);
+		const coverageZoom = calculateInitialZoom(
+			width,
+			height,
+			viewport.width,
+			viewport.height,
+		);
+
+		// Enforce coverage by default
+		if (this.zoomConfig.enforceMinimumCoverage !== false) {
+			this.effectiveMinZoom = Math.max(this.zoomConfig.min, coverageZoom);
+		} else {
+			this.effectiveMinZoom = this.zoomConfig.min;
+		}
+
+		return coverageZoom;
+	}
+
+	/**
+	 * Clamps the zoom to the allowed range after the minimum zoom changed
+	 */
+	private clampZoom(): void {
+		this.transform.scale = clamp(
+			this.transform.scale,
+			this.effectiveMinZoom,
+			this.zoomConfig.max,
+		);
+	}
+
+	/**
+	 * Sets the orientation, rotating the image offset around the viewport center along with
+	 * the image, and recalculates the minimum zoom for the new frame
+	 */
+	private setOrientation(orientation: number): void {
+		if (orientation % 90 !== 0) {
+			throw new Error(
+				`Rotation must be a multiple of 90 degrees, received ${orientation}`,
+			);
+		}
+
+		const normalized = normalizeOrientation(orientation);
+		const { x, y } = rotateVector(
+			this.transform.x,
+			this.transform.y,
+			normalized - this.orientationState,
+		);
+		this.transform.x = x;
+		this.transform.y = y;
+
+		this.orientationState = normalized;
+		this.updateEffectiveMinZoom();
+	}
+
+	/**
+	 * Sets the straighten angle, rotating the image offset around the viewport center along
+	 * with the image, and recalculates the minimum zoom
+	 */
+	private setAngleState(angle: number): void {
+		const { x, y } = rotateVector(
+			this.transform.x,
+			this.transform.y,
+			angle - this.transform.angle,
+		);
+		this.transform.x = x;
+		this.transform.y = y;
+		this.transform.angle = angle;
+
+		if (this.image) {
+			this.updateEffectiveMinZoom();
+		}
+	}
+
+	/**
+	 * Centers the given points (or the current viewport center) in the viewport at the given
+	 * zoom (or the zoom derived from the points), clamped to the allowed zoom range
+	 */
+	private applyCrop(
+		points: CropPoints | undefined,
+		zoom: number | undefined,
+	): void {
+		const target = points ? this.transformFromPoints(points) : this.transform;
+		const scale = clamp(
+			zoom ?? target.scale,
+			this.effectiveMinZoom,
+			this.zoomConfig.max,
+		);
+
+		// Scale the offset with the zoom to keep the same point centered
+		const ratio = target.scale ? scale / target.scale : 1;
+		this.transform = {
+			x: target.x * ratio,
+			y: target.y * ratio,
+			scale,
+			angle: this.transform.angle,
+		};
+	}
+
+	/**
+	 * Computes the transform that centers the given points (in the current frame) in the viewport
+	 */
+	private transformFromPoints(
+		points: CropPoints,
+	): Pick<TransformState, "x" | "y" | "scale"> {
+		const { width, height } = this.getRotatedSize();
+		return pointsToTransform(
+			points,
+			width,
+			height,
+			this.viewportState.width,
+			this.viewportState.height,
+		);
+	}
+
+	/**
+	 * Constrains the current position to keep the image covering the viewport
+	 */
+	private constrainPosition(): void {
+		if (!this.image) return;
+
+		const { angle } = this.transform;
+		const bounds = calculateBounds(
+			this.image.width,
+			this.image.height,
+			this.transform.scale,
+			this.viewportState.width,
+			this.viewportState.height,
+			this.orientationState,
+			angle,
+		);
+
+		// Bounds apply along the tilted image's axes
+		const offset = rotateVector(this.transform.x, this.transform.y, -angle);
+		const constrained = rotateVector(
+			clamp(offset.x, bounds.minX, bounds.maxX),
+			clamp(offset.y, bounds.minY, bounds.maxY),
+			angle,
+		);
+
+		this.transform.x = constrained.x;
+		this.transform.y = constrained.y;
+	}
+}
@@ -5,9 +5,20 @@ import type {
 	CroppieData,
 	CroppieEventHandler,
 	CroppieEvents,
+	CroppieLabels,
 	CroppieOptions,
+	FlipDirection,
+	KeyboardConfig,
+	MultiResultOptions,
+	OutputFormat,
+	OutputType,
+	PointsArray,
+	ResultInfo,
+	ResultMetadata,
 	ResultOptions,
-	TransformState,
+	ResultValue,
+	SetDataOptions,
+	StraightenConfig,
 	Viewport,
 	ZoomConfig,
 } from "./types.ts";
@@ -15,38 +26,98 @@ import type {
 import {
 	createBoundary,
 	createContainer,
+	createDescription,
+	createLiveRegion,
 	createOverlay,
 	createPreview,
+	createResizeHandles,
 	createSliderContainer,
+	createStraightenSlider,
 	createViewport,
 	createZoomSlider,
+	updateOverlay,
+	updateViewportSize,
 } from "./ui/index.ts";
 
+import { CropEngine } from "./CropEngine.ts";
+
 import {
+	type EncodedImage,
+	type EncodedMetadata,
+	type ImageMetadata,
 	canvasToBase64,
 	canvasToBlob,
-	drawCroppedImage,
+	checkEncodedFormat,
+	detectSupportedFormats,
+	embedMetadata,
+	encodeMetadata,
+	encodeWithinBytes,
+	filterExif,
+	getDataUrlByteLength,
+	getFileExtension,
+	readImageMetadata,
+	renderInWorker,
+	resampleCanvas,
+	resolveOutputFormat,
+	supportsWorkerResults,
 } from "./canvas/index.ts";
 import { createDragHandler } from "./input/drag.ts";
+import { createKeyboardHandler } from "./input/keyboard.ts";
+import { type ResizeLimits, createResizeHandler } from "./input/resize.ts";
 import {
+	type ZoomAnchor,
 	createPinchZoomHandler,
 	createWheelZoomHandler,
 } from "./input/zoom.ts";
 import {
-	calculateBounds,
-	calculateInitialZoom,
-	clamp,
+	browserAppliesExifOrientation,
+	debounce,
 	fileToDataUrl,
+	formatLabel,
+	getExifOrientation,
 	loadImage,
-	normalizePoints,
+	rotateVector,
 	setTransform,
 } from "./utils/index.ts";
 
-const DEFAULT_ZOOM: ZoomConfig = {
-	min: 0.1,
-	max: 10,
+const DEFAULT_LABELS: CroppieLabels = {
+	boundary: "Image cropper",
+	instructions:
+		"Use the arrow keys to move the image, plus and minus to zoom and R to rotate.",
+	image: "Cropper image",
+	zoomSlider: "Zoom",
+	straightenSlider: "Straighten",
+	zoomValue: "{zoom}%",
+	angleValue: "{angle} degrees",
+	zoomAnnouncement: "Zoom {zoom}%.",
+	positionAnnouncement: "Crop centered at {x}% across, {y}% down.",
+};
+
+/** Milliseconds without changes before the live region announces the crop state */
+const ANNOUNCE_DELAY = 500;
+
+const DEFAULT_KEYBOARD: KeyboardConfig = {
+	panStep: 10,
+	panStepLarge: 50,
+	zoomStep: 0.1,
+};
+
+const DEFAULT_MIN_VIEWPORT_SIZE = 50;
+
+/**
+ * Result options with the format preference list resolved to a single format and the
+ * metadata prepared for it
+ */
+type ExportOptions = Omit<ResultOptions, "format" | "metadata"> & {
+	format: OutputFormat;
+	metadata: EncodedMetadata | null;
 };
 
+/**
+ * Output types that return pixels instead of an encoded image
+ */
+const UNENCODED_TYPES: readonly OutputType[] = ["canvas", "imagebitmap"];
+
 /**
  * Modern, TypeScript-first image cropper.
  *
@@ -77,12 +148,22 @@ export class Croppie {
 	private overlayEl: HTMLDivElement | null = null;
 	private previewEl: HTMLImageElement | null = null;
 	private sliderEl: HTMLInputElement | null = null;
+	private straightenSliderEl: HTMLInputElement | null = null;
+	private liveRegionEl: HTMLDivElement | null = null;
+	private resizeHandleEls: HTMLDivElement[] = [];
 
 	// State
 	private image: HTMLImageElement | null = null;
-	private transform: TransformState = { x: 0, y: 0, scale: 1 };
+	private readonly engine: CropEngine;
 	private zoomConfig: ZoomConfig;
-	private effectiveMinZoom = 0.1;
+	private straightenConfig: StraightenConfig;
+	private keyboardConfig: KeyboardConfig;
+	private labels: CroppieLabels;
+	private announced = { zoom: 0, x: 0, y: 0 };
+	private scheduleAnnouncement = debounce(
+		() => this.announce(),
+		ANNOUNCE_DELAY,
+	);
 
 	// Event handlers
 	private eventHandlers: Map<
@@ -93,6 +174,14 @@ export class Croppie {
 	// Cleanup functions
 	private cleanupFns: Array<() => void> = [];
 
+	// Bound image, and its metadata once read for a result
+	private source: string | Blob | null = null;
+	private sourceMetadata: Promise<Pick<ImageMetadata, "icc" | "exif">> | null =
+		null;
+
+	// URLs created for objecturl results, revoked on destroy
+	private objectUrls = new Set<string>();
+
 	constructor(element: HTMLElement, options: CroppieOptions) {
 		this.element = element;
 
@@ -107,17 +196,32 @@ export class Croppie {
 			boundary: options.boundary ?? defaultBoundary,
 			showZoomer: options.showZoomer ?? true,
 			mouseWheelZoom: options.mouseWheelZoom ?? true,
+			keyboard: options.keyboard ?? true,
 		};
 
-		this.zoomConfig = {
-			...DEFAULT_ZOOM,
-			...options.zoom,
+		this.engine = new CropEngine({
+			viewport: options.viewport,
+			zoom: options.zoom,
+			straighten:
+				typeof options.straighten === "object" ? options.straighten : {},
+		});
+		this.zoomConfig = this.engine.zoomConfig;
+		this.straightenConfig = this.engine.straightenConfig;
+
+		this.keyboardConfig = {
+			...DEFAULT_KEYBOARD,
+			...(typeof options.keyboard === "object" ? options.keyboard : {}),
+		};
+
+		this.labels = {
+			...DEFAULT_LABELS,
+			...options.labels,
 		};
 
 		// Deprecation warning for v2.6 migration
 		if (options.enableOrientation !== undefined) {
 			console.warn(
-				"[@bayinformatics/croppie] enableOrientation is deprecated and has no effect. Rotation support is planned for a future release.",
+				"[@bayinformatics/croppie] enableOrientation is deprecated and has no effect. Use rotate() instead.",
 			);
 		}
 
@@ -130,19 +234,36 @@ export class Croppie {
 	 */
 	private createElements(): void {
 		this.container = createContainer(this.options.customClass);
-		this.boundaryEl = createBoundary(this.options.boundary);
-		this.viewportEl = createViewport(this.options.viewport);
-		this.overlayEl = createOverlay(
+		this.boundaryEl = createBoundary(
 			this.options.boundary,
-			this.options.viewport,
+			this.labels.boundary,
 		);
-		this.previewEl = createPreview();
+		this.viewportEl = createViewport(this.engine.viewport);
+		this.overlayEl = createOverlay(this.options.boundary, this.engine.viewport);
+		this.previewEl = createPreview(this.labels.image);
+		this.liveRegionEl = createLiveRegion();
 
 		// Assemble the DOM tree
 		this.boundaryEl.appendChild(this.previewEl);
 		this.boundaryEl.appendChild(this.overlayEl);
 		this.boundaryEl.appendChild(this.viewportEl);
 		this.container.appendChild(this.boundaryEl);
+		this.container.appendChild(this.liveRegionEl);
+
+		// Describe the keyboard controls
+		if (this.options.keyboard) {
+			const description = createDescription(this.labels.instructions);
+			this.boundaryEl.setAttribute("aria-describedby", description.id);
+			this.container.appendChild(description);
+		}
+
+		// Add resize handles if enabled
+		if (this.options.enableResize) {
+			this.resizeHandleEls = createResizeHandles();
+			for (const handle of this.resizeHandleEls) {
+				this.viewportEl.appendChild(handle);
+			}
+		}
 
 		// Add zoom slider if enabled
 		if (this.options.showZoomer) {
@@ -150,7 +271,8 @@ export class Croppie {
 			this.sliderEl = createZoomSlider(
 				this.zoomConfig.min,
 				this.zoomConfig.max,
-				this.transform.scale,
+				this.engine.zoom,
+				this.labels.zoomSlider,
 			);
 			sliderWrap.appendChild(this.sliderEl);
 			this.container.appendChild(sliderWrap);
@@ -158,9 +280,9 @@ export class Croppie {
 			// Slider input handler
 			const handleSliderInput = () => {
 				if (this.sliderEl) {
-					const previousZoom = this.transform.scale;
+					const previousZoom = this.engine.zoom;
 					this.setZoom(Number.parseFloat(this.sliderEl.value));
-					this.emitEvent("zoom", { zoom: this.transform.scale, previousZoom });
+					this.emitEvent("zoom", { zoom: this.engine.zoom, previousZoom });
 				}
 			};
 			this.sliderEl.addEventListener("input", handleSliderInput);
@@ -169,6 +291,32 @@ export class Croppie {
 			});
 		}
 
+		// Add straighten slider if enabled
+		if (this.options.straighten) {
+			const sliderWrap = createSliderContainer();
+			this.straightenSliderEl = createStraightenSlider(
+				this.straightenConfig.min,
+				this.straightenConfig.max,
+				this.engine.angle,
+				this.labels.straightenSlider,
+			);
+			sliderWrap.appendChild(this.straightenSliderEl);
+			this.container.appendChild(sliderWrap);
+
+			const handleStraightenInput = () => {
+				if (this.straightenSliderEl) {
+					this.setAngle(Number.parseFloat(this.straightenSliderEl.value));
+				}
+			};
+			this.straightenSliderEl.addEventListener("input", handleStraightenInput);
+			this.cleanupFns.push(() => {
+				this.straightenSliderEl?.removeEventListener(
+					"input",
+					handleStraightenInput,
+				);
+			});
+		}
+
 		this.element.appendChild(this.container);
 	}
 
@@ -178,17 +326,24 @@ export class Croppie {
 	private attachEventHandlers(): void {
 		if (!this.boundaryEl || !this.previewEl) return;
 
+		const moveTo = (x: number, y: number) => {
+			this.engine.moveTo(x, y);
+			this.updateTransform();
+			this.emitUpdate();
+		};
+
+		// Zoom gestures set the scale first, then move the image to keep the point under the
+		// cursor or pinch midpoint in place - the move constrains, renders and emits once
+		const zoomAnchor: ZoomAnchor = {
+			getPosition: () => this.engine.getTransform(),
+			setPosition: moveTo,
+		};
+
 		// Drag handler
 		const dragCleanup = createDragHandler(
 			this.boundaryEl,
-			() => this.transform,
-			(x, y) => {
-				this.transform.x = x;
-				this.transform.y = y;
-				this.constrainPosition();
-				this.updateTransform();
-				this.emitUpdate();
-			},
+			() => this.engine.getTransform(),
+			moveTo,
 		);
 		this.cleanupFns.push(dragCleanup);
 
@@ -197,19 +352,20 @@ export class Croppie {
 			const requireCtrl = this.options.mouseWheelZoom === "ctrl";
 			const wheelCleanup = createWheelZoomHandler(
 				this.boundaryEl,
-				() => this.transform.scale,
-				(zoom) => this.setZoom(zoom),
+				() => this.engine.zoom,
+				(zoom) => this.applyZoom(zoom),
 				this.zoomConfig,
 				{
 					onChange: (_zoom, previousZoom) => {
-						// Emit the actual clamped zoom value (setZoom clamps to effectiveMinZoom)
+						// Emit the actual clamped zoom value (applyZoom clamps to the minimum zoom)
 						this.emitEvent("zoom", {
-							zoom: this.transform.scale,
+							zoom: this.engine.zoom,
 							previousZoom,
 						});
 					},
 				},
 				requireCtrl,
+				zoomAnchor,
 			);
 			this.cleanupFns.push(wheelCleanup);
 		}
@@ -217,17 +373,111 @@ export class Croppie {
 		// Pinch zoom handler
 		const pinchCleanup = createPinchZoomHandler(
 			this.boundaryEl,
-			() => this.transform.scale,
-			(zoom) => this.setZoom(zoom),
+			() => this.engine.zoom,
+			(zoom) => this.applyZoom(zoom),
 			this.zoomConfig,
 			{
 				onChange: (_zoom, previousZoom) => {
-					// Emit the actual clamped zoom value (setZoom clamps to effectiveMinZoom)
-					this.emitEvent("zoom", { zoom: this.transform.scale, previousZoom });
+					// Emit the actual clamped zoom value (applyZoom clamps to the minimum zoom)
+					this.emitEvent("zoom", { zoom: this.engine.zoom, previousZoom });
 				},
 			},
+			zoomAnchor,
 		);
 		this.cleanupFns.push(pinchCleanup);
+
+		// Keyboard handler
+		if (this.options.keyboard) {
+			const keyboardCleanup = createKeyboardHandler(
+				this.boundaryEl,
+				{
+					pan: (deltaX, deltaY) => {
+						const { x, y } = this.engine.getTransform();
+						moveTo(x + deltaX, y + deltaY);
+					},
+					zoom: (factor) => {
+						// Zoom around the viewport center
+						const previousZoom = this.engine.zoom;
+						this.engine.setZoom(previousZoom * factor, { x: 0, y: 0 });
+						if (this.engine.zoom === previousZoom) return;
+
+						this.updateTransform();
+						this.updateSlider();
+						this.emitUpdate();
+						this.emitEvent("zoom", {
+							zoom: this.engine.zoom,
+							previousZoom,
+						});
+					},
+					rotate: (degrees) => this.rotate(degrees),
+				},
+				this.keyboardConfig,
+			);
+			this.cleanupFns.push(keyboardCleanup);
+		}
+
+		// Viewport resize handler
+		if (this.resizeHandleEls.length > 0) {
+			const resizeCleanup = createResizeHandler(
+				this.resizeHandleEls,
+				() => this.engine.viewport,
+				(width, height) => this.setViewportSize(width, height),
+				this.getResizeLimits(),
+			);
+			this.cleanupFns.push(resizeCleanup);
+		}
+	}
+
+	/**
+	 * Resolves the viewport resize limits from the enableResize option
+	 */
+	private getResizeLimits(): ResizeLimits {
+		const config =
+			typeof this.options.enableResize === "object"
+				? this.options.enableResize
+				: {};
+		const boundary = this.options.boundary;
+
+		return {
+			minWidth: config.minWidth ?? DEFAULT_MIN_VIEWPORT_SIZE,
+			minHeight: config.minHeight ?? DEFAULT_MIN_VIEWPORT_SIZE,
+			maxWidth: Math.min(config.maxWidth ?? boundary.width, boundary.width),
+			maxHeight: Math.min(config.maxHeight ?? boundary.height, boundary.height),
+			aspectRatio: config.aspectRatio,
+		};
+	}
+
+	/**
+	 * Resizes the viewport (kept centered in the boundary) and re-applies the zoom and
+	 * position constraints for the new size
+	 */
+	private setViewportSize(width: number, height: number): void {
+		if (
+			width === this.engine.viewport.width &&
+			height === this.engine.viewport.height
+		) {
+			return;
+		}
+
+		this.engine.setViewportSize(width, height);
+
+		if (this.viewportEl) {
+			updateViewportSize(this.viewportEl, this.engine.viewport);
+		}
+		if (this.overlayEl) {
+			updateOverlay(
+				this.overlayEl,
+				this.options.boundary,
+				this.engine.viewport,
+			);
+		}
+
+		if (this.image) {
+			this.updateTransform();
+			this.updateSlider();
+		}
+
+		this.emitUpdate();
 	}
 
 	/**
@@ -237,7 +487,13 @@ export class Croppie {
 		const bindOptions: BindOptions =
 			typeof options === "string" ? { url: options } : options;
 
+		const exifOrientation =
+			bindOptions.orientation ??
+			(await this.detectExifOrientation(bindOptions.url));
+
 		this.image = await loadImage(bindOptions.url);
+		this.source = bindOptions.url;
+		this.sourceMetadata = null;
 
 		if (this.previewEl) {
 			// Use the loaded image's src to ensure preview matches the image we crop from
@@ -245,129 +501,466 @@ export class Croppie {
 			this.previewEl.src = this.image.src;
 		}
 
-		// Calculate minimum zoom to cover viewport
-		const coverageZoom = calculateInitialZoom(
-			this.image.naturalWidth,
-			this.image.naturalHeight,
-			this.options.viewport.width,
-			this.options.viewport.height,
-		);
+		this.engine.setImage(this.image.naturalWidth, this.image.naturalHeight, {
+			points: bindOptions.points,
+			zoom: bindOptions.zoom,
+			orientation: exifOrientation,
+		});
+		this.updateTransform();
+		this.updateSlider();
+		this.updateStraightenSlider();
 
-		// Calculate effective min zoom (enforce coverage by default)
-		if (this.zoomConfig.enforceMinimumCoverage !== false) {
-			this.effectiveMinZoom = Math.max(this.zoomConfig.min, coverageZoom);
-		} else {
-			this.effectiveMinZoom = this.zoomConfig.min;
-		}
+		// Only announce changes made after binding
+		this.announced = this.getAnnouncementState();
+	}
 
-		// Calculate initial zoom
-		const initialZoom = bindOptions.zoom ?? coverageZoom;
+	/**
+	 * Binds a File or Blob to the cropper
+	 */
+	async bindFile(file: File | Blob): Promise<void> {
+		const [dataUrl, orientation] = await Promise.all([
+			fileToDataUrl(file),
+			this.detectExifOrientation(file),
+		]);
+		// Orientation was already read from the file, so bind() needn't decode the data URL
+		await this.bind({ url: dataUrl, orientation: orientation ?? 1 });
+		// Read metadata from the file rather than decoding the data URL
+		this.source = file;
+	}
 
-		this.transform = {
-			x: 0,
-			y: 0,
-			scale: clamp(initialZoom, this.effectiveMinZoom, this.zoomConfig.max),
-		};
+	/**
+	 * Reads the EXIF orientation of an image when enableExif is set, unless the browser
+	 * already displays images upright
+	 */
+	private async detectExifOrientation(
+		source: string | Blob,
+	): Promise<number | undefined> {
+		if (!this.options.enableExif || (await browserAppliesExifOrientation())) {
+			return undefined;
+		}
+		return getExifOrientation(source);
+	}
 
-		// Update slider min to reflect effective minimum
-		if (this.sliderEl) {
-			this.sliderEl.min = String(this.effectiveMinZoom);
+	/**
+	 * Gets the current cropped result
+	 */
+	async result(options: ResultOptions): Promise<ResultValue> {
+		const image = this.image;
+		if (!image) {
+			throw new Error("No image bound");
 		}
 
-		// Apply initial points if provided
-		if (bindOptions.points) {
-			const normalizedPoints = normalizePoints(bindOptions.points);
-			if (normalizedPoints) {
-				// TODO: Calculate transform from points - not yet implemented
-				console.warn(
-					"[@bayinformatics/croppie] Initial points are not yet fully supported. Provided:",
-					normalizedPoints,
-				);
+		const { width: outputWidth, height: outputHeight } =
+			this.engine.getOutputSize(options.size);
+
+		const exportOptions = await this.resolveExportOptions(options);
+
+		if (options.worker && !UNENCODED_TYPES.includes(options.type)) {
+			const encoded = await this.renderResultInWorker(
+				image,
+				exportOptions,
+				outputWidth,
+				outputHeight,
+			);
+			if (encoded) {
+				return this.finishEncodedResult(encoded, exportOptions);
 			}
 		}
 
-		this.constrainPosition();
-		this.updateTransform();
-		this.updateSlider();
+		const canvas = this.drawResult(image, options, outputWidth, outputHeight);
+		return this.exportCanvas(canvas, exportOptions);
 	}
 
 	/**
-	 * Binds a File or Blob to the cropper
+	 * Gets the current crop at several sizes at once.
+	 *
+	 * The crop is drawn once at the largest size and each smaller size is downscaled
+	 * from the next larger one, in halving steps unless `options.resample` is set.
 	 */
-	async bindFile(file: File | Blob): Promise<void> {
-		const dataUrl = await fileToDataUrl(file);
-		await this.bind({ url: dataUrl });
+	async results(
+		options: MultiResultOptions,
+	): Promise<Record<string, ResultValue>> {
+		const image = this.image;
+		if (!image) {
+			throw new Error("No image bound");
+		}
+		if (options.sizes.length === 0) {
+			throw new Error("No result sizes given");
+		}
+
+		const exportOptions = await this.resolveExportOptions(options);
+		const viewport = this.engine.viewport;
+		const targets = options.sizes
+			.map((size) =>
+				typeof size === "number"
+					? {
+							key: String(size),
+							width: size,
+							height: Math.round((size * viewport.height) / viewport.width),
+						}
+					: { key: `${size.width}x${size.height}`, ...size },
+			)
+			.sort((a, b) => b.width * b.height - a.width * a.height);
+
+		const base = this.drawResult(
+			image,
+			options,
+			Math.max(...targets.map((target) => target.width)),
+			Math.max(...targets.map((target) => target.height)),
+		);
+
+		// Downscale from the previous size when it is at least as large in both directions
+		let previous = base;
+		const canvases = targets.map((target) => {
+			const source =
+				previous.width >= target.width && previous.height >= target.height
+					? previous
+					: base;
+			const canvas =
+				source.width === target.width && source.height === target.height
+					? source
+					: resampleCanvas(
+							source,
+							target.width,
+							target.height,
+							options.resample ?? "stepdown",
+						);
+			previous = canvas;
+			return { key: target.key, canvas };
+		});
+
+		const outputs = await Promise.all(
+			canvases.map(
+				async ({ key, canvas }) =>
+					[
+						key,
+						await this.exportCanvas(canvas, {
+							...exportOptions,
+							onEncoded: (info) => options.onEncoded?.(info, key),
+						}),
+					] as const,
+			),
+		);
+		return Object.fromEntries(outputs);
 	}
 
 	/**
-	 * Gets the current cropped result
+	 * Lists the output formats this browser can encode, in the order png, jpeg, webp, avif.
+	 *
+	 * Browsers encode unsupported formats as PNG, so pass a list to `format` or check
+	 * this first when asking for webp or avif.
 	 */
-	async result(
-		options: ResultOptions,
-	): Promise<Blob | string | HTMLCanvasElement> {
-		if (!this.image) {
-			throw new Error("No image bound");
+	static supportedFormats(): Promise<OutputFormat[]> {
+		return detectSupportedFormats();
+	}
+
+	/**
+	 * Picks the output format from a preference list and prepares the metadata for it,
+	 * so every size and fallback path encodes the same format
+	 */
+	private async resolveExportOptions<
+		T extends Pick<ResultOptions, "type" | "format" | "metadata">,
+	>(
+		options: T,
+	): Promise<
+		Omit<T, "format" | "metadata"> & {
+			format: OutputFormat;
+			metadata: EncodedMetadata | null;
+		}
+	> {
+		// Pixel results are never encoded, so skip probing the encoder
+		if (UNENCODED_TYPES.includes(options.type)) {
+			return { ...options, format: "png", metadata: null };
 		}
 
-		const points = this.getPoints();
-		const viewport = this.options.viewport;
-
-		// Determine output size
-		let outputWidth: number;
-		let outputHeight: number;
-
-		if (options.size === "viewport") {
-			outputWidth = viewport.width;
-			outputHeight = viewport.height;
-		} else if (options.size === "original") {
-			outputWidth = points.bottomRightX - points.topLeftX;
-			outputHeight = points.bottomRightY - points.topLeftY;
-		} else if (options.size) {
-			outputWidth = options.size.width;
-			outputHeight = options.size.height;
-		} else {
-			outputWidth = viewport.width;
-			outputHeight = viewport.height;
-		}
-
-		const canvas = drawCroppedImage(
-			this.image,
-			points,
-			outputWidth,
-			outputHeight,
+		const format = await resolveOutputFormat(options.format);
+		const metadata = options.metadata
+			? await this.prepareMetadata(options.metadata, format)
+			: null;
+		return { ...options, format, metadata };
+	}
+
+	/**
+	 * Collects the DPI, ICC profile and EXIF fields of a result and encodes them for the output format
+	 */
+	private async prepareMetadata(
+		metadata: ResultMetadata,
+		format: OutputFormat,
+	): Promise<EncodedMetadata | null> {
+		if (format !== "jpeg" && format !== "png") {
+			console.warn(
+				`[@bayinformatics/croppie] Metadata can only be written to JPEG and PNG results, not ${format}.`,
+			);
+			return null;
+		}
+
+		const copiesSource = metadata.icc === true || !!metadata.exif?.length;
+		const source = copiesSource ? await this.readSourceMetadata() : {};
+		const icc =
+			metadata.icc === true
+				? source.icc
+				: metadata.icc
+					? new Uint8Array(metadata.icc)
+					: undefined;
+
+		return encodeMetadata(
 			{
-				circle: options.circle ?? viewport.type === "circle",
-				backgroundColor: options.backgroundColor,
+				dpi: metadata.dpi,
+				icc,
+				exif:
+					metadata.exif && source.exif
+						? filterExif(source.exif, metadata.exif)
+						: undefined,
 			},
+			format,
 		);
+	}
+
+	/**
+	 * Reads the ICC profile and EXIF data of the bound image once per bind
+	 */
+	private readSourceMetadata(): Promise<Pick<ImageMetadata, "icc" | "exif">> {
+		if (!this.sourceMetadata) {
+			const source = this.source;
+			this.sourceMetadata = (async () => {
+				if (!source) {
+					return {};
+				}
+				const buffer =
+					typeof source === "string"
+						? await (await fetch(source)).arrayBuffer()
+						: await source.arrayBuffer();
+				return readImageMetadata(new Uint8Array(buffer));
+			})().catch((error) => {
+				console.warn(
+					"[@bayinformatics/croppie] Could not read the metadata of the source image.",
+					error,
+				);
+				return {};
+			});
+		}
+		return this.sourceMetadata;
+	}
+
+	/**
+	 * Draws the current crop at the given output size, clipped to the viewport shape
+	 * unless `options.circle` overrides it
+	 */
+	private drawResult(
+		image: HTMLImageElement,
+		options: Pick<ResultOptions, "circle" | "backgroundColor" | "resample">,
+		outputWidth: number,
+		outputHeight: number,
+	): HTMLCanvasElement {
+		return this.engine.draw(image, {
+			...options,
+			size: { width: outputWidth, height: outputHeight },
+		});
+	}
+
+	/**
+	 * Draws and encodes the result in a worker, or returns null when workers cannot be used
+	 * so the caller falls back to the main thread
+	 */
+	private async renderResultInWorker(
+		image: HTMLImageElement,
+		options: ExportOptions,
+		outputWidth: number,
+		outputHeight: number,
+	): Promise<EncodedImage | null> {
+		if (!supportsWorkerResults()) {
+			return null;
+		}
+
+		try {
+			return await renderInWorker(image, {
+				points: this.engine.getPoints(),
+				width: outputWidth,
+				height: outputHeight,
+				options: this.engine.getDrawOptions(options, outputWidth, outputHeight),
+				format: options.format,
+				quality: options.quality,
+				maxBytes: this.getEncodedByteBudget(options),
+				shrinkToFit: options.shrinkToFit,
+			});
+		} catch (error) {
+			console.warn(
+				"[@bayinformatics/croppie] Drawing the result in a worker failed, falling back to the main thread.",
+				error,
+			);
+			return null;
+		}
+	}
+
+	/**
+	 * Converts a result canvas to the requested output type
+	 */
+	private async exportCanvas(
+		canvas: HTMLCanvasElement,
+		options: Pick<
+			ExportOptions,
+			| "type"
+			| "format"
+			| "quality"
+			| "maxBytes"
+			| "shrinkToFit"
+			| "strictFormat"
+			| "fileName"
+			| "metadata"
+			| "onEncoded"
+		>,
+	): Promise<ResultValue> {
+		const quality = options.quality ?? 0.92;
 
 		switch (options.type) {
 			case "canvas":
 				return canvas;
+			case "imagebitmap":
+				return createImageBitmap(canvas);
 			case "base64":
-				return canvasToBase64(canvas, options.format, options.quality);
 			case "blob":
-				return canvasToBlob(canvas, options.format, options.quality);
+			case "file":
+			case "objecturl":
+				if (options.maxBytes !== undefined) {
+					const encoded = await encodeWithinBytes(
+						canvas,
+						this.getEncodedByteBudget(options) ?? options.maxBytes,
+						{
+							format: options.format,
+							quality,
+							shrink: options.shrinkToFit,
+						},
+					);
+					return this.finishEncodedResult(encoded, options);
+				}
+				if (options.type === "base64" && !options.metadata) {
+					const dataUrl = canvasToBase64(canvas, options.format, quality);
+					const format = checkEncodedFormat(
+						dataUrl.slice(5, dataUrl.indexOf(";")),
+						options.format,
+						options.strictFormat,
+					);
+					this.reportEncoded(
+						{
+							width: canvas.width,
+							height: canvas.height,
+							format,
+							quality,
+							bytes: getDataUrlByteLength(dataUrl),
+						},
+						options,
+					);
+					return dataUrl;
+				}
+				return this.finishEncodedResult(
+					{
+						blob: await canvasToBlob(canvas, options.format, quality),
+						width: canvas.width,
+						height: canvas.height,
+						quality,
+					},
+					options,
+				);
 			default:
 				throw new Error(`Unknown result type: ${options.type}`);
 		}
 	}
 
+	/**
+	 * Checks the encoded format, reports an encoded result and returns it as the requested output type
+	 */
+	private async finishEncodedResult(
+		encoded: EncodedImage,
+		options: Pick<
+			ExportOptions,
+			"type" | "format" | "strictFormat" | "fileName" | "metadata" | "onEncoded"
+		>,
+	): Promise<Blob | string> {
+		const format = checkEncodedFormat(
+			encoded.blob.type,
+			options.format,
+			options.strictFormat,
+		);
+		const blob = options.metadata
+			? await embedMetadata(encoded.blob, options.metadata)
+			: encoded.blob;
+		this.reportEncoded(
+			{
+				width: encoded.width,
+				height: encoded.height,
+				format,
+				quality: encoded.quality,
+				bytes: blob.size,
+			},
+			options,
+		);
+
+		switch (options.type) {
+			case "base64":
+				return fileToDataUrl(blob);
+			case "file":
+				return new File(
+					[blob],
+					options.fileName ?? `crop-${Date.now()}.${getFileExtension(format)}`,
+					{ type: blob.type },
+				);
+			case "objecturl": {
+				const url = URL.createObjectURL(blob);
+				this.objectUrls.add(url);
+				return url;
+			}
+			default:
+				return blob;
+		}
+	}
+
+	/**
+	 * Reports how a result was encoded to its `onEncoded` callback and with the "result" event
+	 */
+	private reportEncoded(
+		info: ResultInfo,
+		options: Pick<ExportOptions, "onEncoded">,
+	): void {
+		options.onEncoded?.(info);
+		this.emitEvent("result", info);
+	}
+
+	/**
+	 * Gets the byte limit for the image data, leaving room for the metadata written after encoding
+	 */
+	private getEncodedByteBudget(
+		options: Pick<ExportOptions, "maxBytes" | "metadata">,
+	): number | undefined {
+		if (options.maxBytes === undefined) {
+			return undefined;
+		}
+		return options.maxBytes - (options.metadata?.byteLength ?? 0);
+	}
+
+	/**
+	 * Releases a URL returned by `result({ type: 'objecturl' })`, or every such URL
+	 * this instance created when called without one
+	 */
+	revokeObjectUrl(url?: string): void {
+		const urls = url === undefined ? [...this.objectUrls] : [url];
+		for (const objectUrl of urls) {
+			URL.revokeObjectURL(objectUrl);
+			this.objectUrls.delete(objectUrl);
+		}
+	}
+
 	/**
 	 * Gets the current crop data
 	 */
 	get(): CroppieData {
-		return {
-			points: this.getPoints(),
-			zoom: this.transform.scale,
-		};
+		return this.engine.get();
 	}
 
 	/**
 	 * Gets the current zoom level
 	 */
 	get zoom(): number {
-		return this.transform.scale;
+		return this.engine.zoom;
 	}
 
 	/**
@@ -381,27 +974,103 @@ export class Croppie {
 	 * Sets the zoom level with clamping
 	 */
 	setZoom(value: number): void {
-		const previousZoom = this.transform.scale;
-		this.transform.scale = clamp(
-			value,
-			this.effectiveMinZoom,
-			this.zoomConfig.max,
-		);
-		this.constrainPosition();
+		const previousZoom = this.engine.zoom;
+		this.applyZoom(value);
 		this.updateTransform();
-		this.updateSlider();
 
-		if (previousZoom !== this.transform.scale) {
+		if (previousZoom !== this.engine.zoom) {
 			this.emitUpdate();
 		}
 	}
 
 	/**
-	 * Rotates the image by 90 degree increments
+	 * Gets the current straighten angle in degrees
+	 */
+	get angle(): number {
+		return this.engine.angle;
+	}
+
+	/**
+	 * Sets the straighten angle in degrees
+	 */
+	set angle(value: number) {
+		this.setAngle(value);
+	}
+
+	/**
+	 * Sets the free rotation (straighten angle) in degrees, clamped to the straighten limits
+	 *
+	 * The rotation is applied on top of the 90° orientation. The point at the center of the
+	 * viewport is kept in place; zoom is raised if the tilted image would no longer cover the
+	 * viewport.
+	 */
+	setAngle(value: number): void {
+		const previousAngle = this.engine.angle;
+		this.engine.setAngle(value);
+		if (this.engine.angle === previousAngle) return;
+
+		this.updateTransform();
+		this.updateSlider();
+		this.updateStraightenSlider();
+		this.emitUpdate();
+	}
+
+	/**
+	 * Rotates the image clockwise by 90 degree increments (negative values rotate counter-clockwise).
+	 *
+	 * The point at the center of the viewport is kept in place; zoom is raised if the
+	 * rotated image would no longer cover the viewport.
 	 */
 	rotate(degrees: 90 | 180 | 270 | -90): void {
-		// TODO: Implement rotation
-		console.warn("Rotation not yet implemented:", degrees);
+		if (!this.image) return;
+
+		this.engine.rotate(degrees);
+		this.updateTransform();
+		this.updateSlider();
+		this.emitUpdate();
+	}
+
+	/**
+	 * Mirrors the image as displayed, e.g. to un-mirror a selfie camera image
+	 *
+	 * The crop is mirrored along with the image. `orientation` is unchanged; the straighten
+	 * angle is negated so the image keeps its tilt relative to the viewport.
+	 */
+	flip(direction: FlipDirection): void {
+		if (!this.image) return;
+
+		this.engine.flip(direction);
+		this.updateTransform();
+		this.updateSlider();
+		this.updateStraightenSlider();
+		this.emitUpdate();
+	}
+
+	/**
+	 * Moves the viewport to the given crop points
+	 *
+	 * Shorthand for `setData({ points })`.
+	 */
+	setPoints(points: CropPoints | PointsArray): void {
+		this.setData({ points });
+	}
+
+	/**
+	 * Applies a crop state, e.g. one previously returned by `get()`
+	 *
+	 * `orientation`, `angle` and `flip` are applied first, so `points` are read in the rotated
+	 * frame. `points` are centered in the viewport the same way as in `bind()`, and `zoom` takes
+	 * precedence over the zoom derived from them. Omitted fields keep their current value; changing only `zoom`
+	 * keeps the point under the viewport center in place. Emits an `update` event.
+	 */
+	setData(data: SetDataOptions): void {
+		if (!this.image) return;
+
+		this.engine.setData(data);
+		this.updateTransform();
+		this.updateSlider();
+		this.updateStraightenSlider();
+		this.emitUpdate();
 	}
 
 	/**
@@ -409,24 +1078,10 @@ export class Croppie {
 	 */
 	reset(): void {
 		if (this.image) {
-			const coverageZoom = calculateInitialZoom(
-				this.image.naturalWidth,
-				this.image.naturalHeight,
-				this.options.viewport.width,
-				this.options.viewport.height,
-			);
-
-			// Clamp to effective minimum zoom (same logic as bind)
-			const initialZoom = clamp(
-				coverageZoom,
-				this.effectiveMinZoom,
-				this.zoomConfig.max,
-			);
-
-			this.transform = { x: 0, y: 0, scale: initialZoom };
-			this.constrainPosition();
+			this.engine.reset();
 			this.updateTransform();
 			this.updateSlider();
+			this.updateStraightenSlider();
 			this.emitUpdate();
 		}
 	}
@@ -441,6 +1096,8 @@ export class Croppie {
 		}
 		this.cleanupFns = [];
 
+		this.revokeObjectUrl();
+
 		// Clear event handlers
 		this.eventHandlers.clear();
 
@@ -455,7 +1112,13 @@ export class Croppie {
 		this.overlayEl = null;
 		this.previewEl = null;
 		this.sliderEl = null;
+		this.straightenSliderEl = null;
+		this.liveRegionEl = null;
+		this.resizeHandleEls = [];
 		this.image = null;
+		this.engine.clearImage();
+		this.source = null;
+		this.sourceMetadata = null;
 	}
 
 	/**
@@ -490,91 +1153,110 @@ export class Croppie {
 	 */
 	private updateTransform(): void {
 		if (this.previewEl) {
-			// Center the image in the boundary
-			const boundaryWidth = this.options.boundary.width;
-			const boundaryHeight = this.options.boundary.height;
-			const imageWidth = this.image?.naturalWidth ?? 0;
-			const imageHeight = this.image?.naturalHeight ?? 0;
+			const transform = this.engine.getTransform();
+			const flip = this.engine.getFlip();
+			const scale = transform.scale;
+			const halfWidth =
+				((this.image?.naturalWidth ?? 0) / 2) * (flip.horizontal ? -1 : 1);
+			const halfHeight =
+				((this.image?.naturalHeight ?? 0) / 2) * (flip.vertical ? -1 : 1);
+
+			// The preview flips and rotates around its top-left corner (transform-origin: 0 0),
+			// so offset the translation to keep the image center in place
+			const rotation = this.engine.orientation + transform.angle;
+			const rotatedCenter = rotateVector(halfWidth, halfHeight, rotation);
+			const rotatedCenterX = rotatedCenter.x * scale;
+			const rotatedCenterY = rotatedCenter.y * scale;
 
-			const scaledWidth = imageWidth * this.transform.scale;
-			const scaledHeight = imageHeight * this.transform.scale;
-
-			const centerX = (boundaryWidth - scaledWidth) / 2 + this.transform.x;
-			const centerY = (boundaryHeight - scaledHeight) / 2 + this.transform.y;
+			// Center the image in the boundary
+			const x = this.options.boundary.width / 2 + transform.x - rotatedCenterX;
+			const y = this.options.boundary.height / 2 + transform.y - rotatedCenterY;
 
-			setTransform(this.previewEl, centerX, centerY, this.transform.scale);
+			setTransform(this.previewEl, x, y, scale, rotation, flip);
 		}
 	}
 
+	/**
+	 * Sets the zoom clamped to the allowed range, without moving or rendering the image
+	 */
+	private applyZoom(value: number): void {
+		this.engine.setZoom(value);
+		this.updateSlider();
+	}
+
 	/**
 	 * Updates the slider value to match current zoom
 	 */
 	private updateSlider(): void {
 		if (this.sliderEl) {
-			this.sliderEl.value = String(this.transform.scale);
+			// The minimum follows the image, orientation and angle
+			this.sliderEl.min = String(this.engine.minZoom);
+			this.sliderEl.value = String(this.engine.zoom);
+			this.sliderEl.setAttribute(
+				"aria-valuetext",
+				formatLabel(this.labels.zoomValue, {
+					zoom: Math.round(this.engine.zoom * 100),
+				}),
+			);
 		}
 	}
 
 	/**
-	 * Constrains the current position to keep the image covering the viewport
+	 * Updates the straighten slider value to match the current angle
 	 */
-	private constrainPosition(): void {
-		if (!this.image) return;
-
-		const bounds = calculateBounds(
-			this.image.naturalWidth,
-			this.image.naturalHeight,
-			this.transform.scale,
-			this.options.viewport.width,
-			this.options.viewport.height,
-		);
-
-		this.transform.x = clamp(this.transform.x, bounds.minX, bounds.maxX);
-		this.transform.y = clamp(this.transform.y, bounds.minY, bounds.maxY);
+	private updateStraightenSlider(): void {
+		if (this.straightenSliderEl) {
+			this.straightenSliderEl.value = String(this.engine.angle);
+			this.straightenSliderEl.setAttribute(
+				"aria-valuetext",
+				formatLabel(this.labels.angleValue, { angle: this.engine.angle }),
+			);
+		}
 	}
 
 	/**
-	 * Calculates the crop points based on current transform
+	 * Emits an update event
 	 */
-	private getPoints(): CropPoints {
-		if (!this.image) {
-			return { topLeftX: 0, topLeftY: 0, bottomRightX: 0, bottomRightY: 0 };
-		}
-
-		const viewport = this.options.viewport;
-		const boundary = this.options.boundary;
-		const imageWidth = this.image.naturalWidth;
-		const imageHeight = this.image.naturalHeight;
-
-		// Calculate the visible area in image coordinates
-		const scaledWidth = imageWidth * this.transform.scale;
-		const scaledHeight = imageHeight * this.transform.scale;
-
-		const imageLeft = (boundary.width - scaledWidth) / 2 + this.transform.x;
-		const imageTop = (boundary.height - scaledHeight) / 2 + this.transform.y;
-
-		const viewportLeft = (boundary.width - viewport.width) / 2;
-		const viewportTop = (boundary.height - viewport.height) / 2;
+	private emitUpdate(): void {
+		this.emitEvent("update", this.get());
+		this.scheduleAnnouncement();
+	}
 
-		// Convert viewport coordinates to image coordinates
-		const topLeftX = (viewportLeft - imageLeft) / this.transform.scale;
-		const topLeftY = (viewportTop - imageTop) / this.transform.scale;
-		const bottomRightX = topLeftX + viewport.width / this.transform.scale;
-		const bottomRightY = topLeftY + viewport.height / this.transform.scale;
+	/**
+	 * Returns the values spoken by the live region: zoom and crop center in percent
+	 */
+	private getAnnouncementState(): { zoom: number; x: number; y: number } {
+		const points = this.engine.getPoints();
+		const { width, height } = this.engine.getRotatedSize();
+		const centerX = (points.topLeftX + points.bottomRightX) / 2;
+		const centerY = (points.topLeftY + points.bottomRightY) / 2;
 
 		return {
-			topLeftX: Math.max(0, topLeftX),
-			topLeftY: Math.max(0, topLeftY),
-			bottomRightX: Math.min(imageWidth, bottomRightX),
-			bottomRightY: Math.min(imageHeight, bottomRightY),
+			zoom: Math.round(this.engine.zoom * 100),
+			x: width ? Math.round((centerX / width) * 100) : 0,
+			y: height ? Math.round((centerY / height) * 100) : 0,
 		};
 	}
 
 	/**
-	 * Emits an update event
+	 * Announces zoom and position changes since the last announcement in the live region
 	 */
-	private emitUpdate(): void {
-		this.emitEvent("update", this.get());
+	private announce(): void {
+		if (!this.liveRegionEl || !this.image) return;
+
+		const state = this.getAnnouncementState();
+		const messages: string[] = [];
+		if (state.zoom !== this.announced.zoom) {
+			messages.push(formatLabel(this.labels.zoomAnnouncement, state));
+		}
+		if (state.x !== this.announced.x || state.y !== this.announced.y) {
+			messages.push(formatLabel(this.labels.positionAnnouncement, state));
+		}
+
+		this.announced = state;
+		if (messages.length > 0) {
+			this.liveRegionEl.textContent = messages.join(" ");
+		}
 	}
 
 	/**
@@ -0,0 +1,189 @@
+/**
+ * A JPEG marker segment or a PNG chunk
+ */
+export interface ImageBlock {
+	/** JPEG marker (e.g. `0xffe1`) or PNG chunk type (e.g. `"pHYs"`) */
+	type: number | string;
+	/** Payload without the marker, length or CRC */
+	data: Uint8Array;
+}
+
+/** JPEG start of image marker */
+const JPEG_SOI = 0xffd8;
+
+/** JPEG start of scan marker - the entropy-coded data follows */
+const JPEG_SOS = 0xffda;
+
+/** Largest JPEG segment payload - the 16-bit length includes its own two bytes */
+export const MAX_JPEG_SEGMENT_DATA = 0xffff - 2;
+
+/** The 8-byte PNG signature */
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * Check whether bytes start like a JPEG file.
+ */
+export function isJpeg(bytes: Uint8Array): boolean {
+	return bytes[0] === 0xff && bytes[1] === 0xd8;
+}
+
+/**
+ * Check whether bytes start with the PNG signature.
+ */
+export function isPng(bytes: Uint8Array): boolean {
+	return PNG_SIGNATURE.every((byte, i) => bytes[i] === byte);
+}
+
+/**
+ * Read the marker segments of a JPEG file up to the start of scan.
+ *
+ * @param bytes - The JPEG file
+ * @returns The header segments, and the offset where the start of scan segment begins
+ * @throws If the data is not a JPEG or a segment is truncated
+ */
+export function readJpegSegments(bytes: Uint8Array): {
+	segments: ImageBlock[];
+	scanOffset: number;
+} {
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	if (bytes.length < 4 || view.getUint16(0) !== JPEG_SOI) {
+		throw new Error("Not a JPEG image");
+	}
+
+	const segments: ImageBlock[] = [];
+	let offset = 2;
+	while (offset + 4 <= bytes.length) {
+		const marker = view.getUint16(offset);
+		if ((marker & 0xff00) !== 0xff00) {
+			throw new Error("Invalid JPEG marker");
+		}
+		if (marker === JPEG_SOS) {
+			return { segments, scanOffset: offset };
+		}
+
+		const length = view.getUint16(offset + 2);
+		if (offset + 2 + length > bytes.length) {
+			throw new Error("Truncated JPEG segment");
+		}
+		segments.push({
+			type: marker,
+			data: bytes.subarray(offset + 4, offset + 2 + length),
+		});
+		offset += 2 + length;
+	}
+
+	throw new Error("JPEG has no image data");
+}
+
+/**
+ * Assemble a JPEG file from header segments and the scan data.
+ *
+ * @param segments - Header segments, written after the start of image marker
+ * @param scan - Everything from the start of scan marker to the end of the file
+ */
+export function writeJpeg(
+	segments: ImageBlock[],
+	scan: Uint8Array,
+): Uint8Array {
+	const length = segments.reduce((sum, { data }) => sum + 4 + data.length, 0);
+	const bytes = new Uint8Array(2 + length + scan.length);
+	const view = new DataView(bytes.buffer);
+	view.setUint16(0, JPEG_SOI);
+
+	let offset = 2;
+	for (const { type, data } of segments) {
+		if (data.length > MAX_JPEG_SEGMENT_DATA) {
+			throw new Error("JPEG segment too large");
+		}
+		view.setUint16(offset, type as number);
+		view.setUint16(offset + 2, data.length + 2);
+		bytes.set(data, offset + 4);
+		offset += 4 + data.length;
+	}
+	bytes.set(scan, offset);
+	return bytes;
+}
+
+/**
+ * Read the chunks of a PNG file.
+ *
+ * @throws If the data is not a PNG or a chunk is truncated
+ */
+export function readPngChunks(bytes: Uint8Array): ImageBlock[] {
+	if (!isPng(bytes)) {
+		throw new Error("Not a PNG image");
+	}
+
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	const chunks: ImageBlock[] = [];
+	let offset = PNG_SIGNATURE.length;
+	while (offset + 12 <= bytes.length) {
+		const length = view.getUint32(offset);
+		if (offset + 12 + length > bytes.length) {
+			throw new Error("Truncated PNG chunk");
+		}
+		chunks.push({
+			type: String.fromCharCode(...bytes.subarray(offset + 4, offset + 8)),
+			data: bytes.subarray(offset + 8, offset + 8 + length),
+		});
+		offset += 12 + length;
+	}
+	return chunks;
+}
+
+/**
+ * Assemble a PNG file from its chunks, computing each chunk's CRC.
+ */
+export function writePng(chunks: ImageBlock[]): Uint8Array {
+	const length = chunks.reduce((sum, { data }) => sum + 12 + data.length, 0);
+	const bytes = new Uint8Array(PNG_SIGNATURE.length + length);
+	const view = new DataView(bytes.buffer);
+	bytes.set(PNG_SIGNATURE);
+
+	let offset = PNG_SIGNATURE.length;
+	for (const { type, data } of chunks) {
+		view.setUint32(offset, data.length);
+		for (let i = 0; i < 4; i++) {
+			bytes[offset + 4 + i] = (type as string).charCodeAt(i);
+		}
+		bytes.set(data, offset + 8);
+		// The CRC covers the chunk type and data
+		view.setUint32(
+			offset + 8 + data.length,
+			crc32(bytes.subarray(offset + 4, offset + 8 + data.length)),
+		);
+		offset += 12 + data.length;
+	}
+	return bytes;
+}
+
+/**
+ * Get the number of bytes a block adds to a JPEG or PNG file.
+ */
+export function getBlockByteLength(block: ImageBlock): number {
+	return (typeof block.type === "number" ? 4 : 12) + block.data.length;
+}
+
+/**
+ * Compute the CRC-32 used by PNG chunks.
+ */
+export function crc32(bytes: Uint8Array): number {
+	if (!crcTable) {
+		crcTable = new Uint32Array(256);
+		for (let n = 0; n < 256; n++) {
+			let c = n;
+			for (let k = 0; k < 8; k++) {
+				c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+			}
+			crcTable[n] = c >>> 0;
+		}
+	}
+
+	let crc = 0xffffffff;
+	for (const byte of bytes) {
+		crc = (crcTable[(crc ^ byte) & 0xff] ?? 0) ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
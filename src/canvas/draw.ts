@@ -1,36 +1,193 @@
-import type { CropPoints, OutputFormat } from "../types.ts";
+import type {
+	CropPoints,
+	FlipState,
+	OutputFormat,
+	ResampleMethod,
+} from "../types.ts";
+import { getRotatedBoundingBox } from "../utils/image.ts";
+import type { ViewportPath } from "../utils/viewport.ts";
+import { type PixelData, resampleLanczos } from "./resample.ts";
+
+/**
+ * A canvas that can be drawn on with a 2D context: a DOM canvas or an `OffscreenCanvas`
+ */
+export type CanvasLike = HTMLCanvasElement | OffscreenCanvas;
+
+/**
+ * The part of the 2D context API the draw functions use, which DOM, offscreen and server canvases share
+ */
+export interface Context2DLike {
+	fillStyle: string | object;
+	imageSmoothingQuality: "low" | "medium" | "high";
+	fillRect(x: number, y: number, width: number, height: number): void;
+	beginPath(): void;
+	closePath(): void;
+	moveTo(x: number, y: number): void;
+	ellipse(
+		x: number,
+		y: number,
+		radiusX: number,
+		radiusY: number,
+		rotation: number,
+		startAngle: number,
+		endAngle: number,
+	): void;
+	clip(): void;
+	clip(path: object): void;
+	scale(x: number, y: number): void;
+	translate(x: number, y: number): void;
+	rotate(angle: number): void;
+	setTransform(
+		a: number,
+		b: number,
+		c: number,
+		d: number,
+		e: number,
+		f: number,
+	): void;
+	drawImage(image: object, dx: number, dy: number): void;
+	drawImage(
+		image: object,
+		dx: number,
+		dy: number,
+		dw: number,
+		dh: number,
+	): void;
+	drawImage(
+		image: object,
+		sx: number,
+		sy: number,
+		sw: number,
+		sh: number,
+		dx: number,
+		dy: number,
+		dw: number,
+		dh: number,
+	): void;
+	getImageData(sx: number, sy: number, sw: number, sh: number): PixelData;
+	createImageData(width: number, height: number): PixelData;
+	putImageData(imageData: PixelData, dx: number, dy: number): void;
+}
+
+/**
+ * Any canvas the draw functions can draw on: a DOM or offscreen canvas, or one from a server canvas library
+ */
+export interface Canvas2DLike {
+	width: number;
+	height: number;
+	getContext(contextId: "2d"): Context2DLike | null;
+}
+
+/**
+ * Creates blank canvases of the given size
+ */
+export type CanvasFactory<C extends Canvas2DLike = CanvasLike> = (
+	width: number,
+	height: number,
+) => C;
+
+/**
+ * Creates a path from SVG path data for clipping, like the `Path2D` constructor
+ */
+export type PathFactory = (data: string) => object;
+
+/**
+ * An image the crop can be drawn from: a DOM image, an `ImageBitmap`, a canvas, or a server canvas library's image
+ */
+export interface CropSource {
+	readonly width: number;
+	readonly height: number;
+	/** The size before CSS scaling, if it differs from `width` and `height` */
+	readonly naturalWidth?: number;
+	readonly naturalHeight?: number;
+}
+
+/**
+ * Rendering options for drawCroppedImage
+ */
+export interface DrawOptions {
+	circle?: boolean;
+	cornerRadius?: { x: number; y: number };
+	path?: ViewportPath;
+	backgroundColor?: string;
+	rotation?: number;
+	flip?: FlipState;
+	resample?: ResampleMethod;
+}
+
+/**
+ * Create a DOM canvas of the given size.
+ */
+function createDomCanvas(width: number, height: number): HTMLCanvasElement {
+	const canvas = document.createElement("canvas");
+	canvas.width = width;
+	canvas.height = height;
+	return canvas;
+}
+
+/**
+ * Create a `Path2D` from SVG path data.
+ *
+ * @throws If `Path2D` is not available, as in Node and Bun.
+ */
+function createDomPath(data: string): Path2D {
+	if (typeof Path2D === "undefined") {
+		throw new Error(
+			"Path2D is not available; pass createPath to draw a path viewport",
+		);
+	}
+	return new Path2D(data);
+}
+
+/**
+ * Get the 2D context of a canvas.
+ *
+ * @throws If the 2D rendering context cannot be obtained.
+ */
+function get2dContext(canvas: Canvas2DLike): Context2DLike {
+	const ctx = canvas.getContext("2d");
+	if (!ctx) {
+		throw new Error("Failed to get 2D context");
+	}
+	return ctx;
+}
 
 /**
  * Create a new canvas containing the specified rectangular region of an image, scaled to given dimensions and optionally masked or filled.
  *
- * @param image - Source HTMLImageElement to draw from.
- * @param points - Crop rectangle in source-image pixels; must provide `topLeftX`, `topLeftY`, `bottomRightX`, and `bottomRightY`.
+ * @param image - Source image or bitmap to draw from.
+ * @param points - Crop rectangle in source-image pixels (in the bounding box of the flipped and rotated image when `options.flip` or `options.rotation` is set); must provide `topLeftX`, `topLeftY`, `bottomRightX`, and `bottomRightY`.
  * @param outputWidth - Width of the resulting canvas in pixels.
  * @param outputHeight - Height of the resulting canvas in pixels.
  * @param options - Optional rendering options.
- * @param options.circle - If true, apply a circular clipping mask centered in the output canvas.
+ * @param options.circle - If true, clip the output to the ellipse inscribed in the canvas (a circle for square outputs).
+ * @param options.cornerRadius - If set, clip the output to a rectangle with these horizontal and vertical corner radii in output pixels.
+ * @param options.path - If set, clip the output to this SVG path, with its coordinate system stretched over the canvas.
  * @param options.backgroundColor - If provided, fill the canvas background with this CSS color before drawing the image.
- * @returns An HTMLCanvasElement containing the cropped (and optionally masked) image scaled to `outputWidth` x `outputHeight`.
- * @throws If the 2D rendering context cannot be obtained from the created canvas.
+ * @param options.rotation - Clockwise rotation of the source image in degrees before cropping.
+ * @param options.flip - Mirroring of the source image, applied before the rotation.
+ * @param options.resample - How to reduce a crop that is larger than the output; `"stepdown"` and `"lanczos"` first draw the crop at its source resolution.
+ * @param options.createCanvas - Creates the output and intermediate canvases; defaults to DOM canvases, pass one that returns `OffscreenCanvas` to draw in a worker, or a server canvas library's canvas.
+ * @param options.createPath - Creates the clip path for `options.path`; defaults to the global `Path2D`, which Node and Bun lack.
+ * @returns A canvas containing the cropped (and optionally masked) image scaled to `outputWidth` x `outputHeight`.
+ * @throws If the 2D rendering context cannot be obtained from the created canvas, or `options.path` is set without `Path2D` or `options.createPath`.
  */
-export function drawCroppedImage(
-	image: HTMLImageElement,
+export function drawCroppedImage<C extends Canvas2DLike = HTMLCanvasElement>(
+	image: CropSource,
 	points: CropPoints,
 	outputWidth: number,
 	outputHeight: number,
-	options?: {
-		circle?: boolean;
-		backgroundColor?: string;
+	options?: DrawOptions & {
+		createCanvas?: CanvasFactory<C>;
+		createPath?: PathFactory;
 	},
-): HTMLCanvasElement {
-	const canvas = document.createElement("canvas");
-	canvas.width = outputWidth;
-	canvas.height = outputHeight;
-
-	const ctx = canvas.getContext("2d");
-	if (!ctx) {
-		throw new Error("Failed to get 2D context");
-	}
+): C {
+	// Without a factory C is the default HTMLCanvasElement
+	const createCanvas =
+		options?.createCanvas ??
+		(createDomCanvas as CanvasFactory<Canvas2DLike> as CanvasFactory<C>);
+	const canvas = createCanvas(outputWidth, outputHeight);
+	const ctx = get2dContext(canvas);
 
 	// Fill background if specified
 	if (options?.backgroundColor) {
@@ -38,34 +195,271 @@ export function drawCroppedImage(
 		ctx.fillRect(0, 0, outputWidth, outputHeight);
 	}
 
-	// Apply circular mask if needed
-	if (options?.circle) {
+	// Apply path, elliptical or rounded mask if needed
+	if (options?.path) {
+		const { path, createPath = createDomPath } = options;
+		ctx.scale(outputWidth / path.width, outputHeight / path.height);
+		ctx.clip(createPath(path.data));
+		// The clip region stays in place when the transform is reset
+		ctx.setTransform(1, 0, 0, 1, 0, 0);
+	} else if (options?.circle) {
 		ctx.beginPath();
-		ctx.arc(outputWidth / 2, outputHeight / 2, outputWidth / 2, 0, Math.PI * 2);
+		ctx.ellipse(
+			outputWidth / 2,
+			outputHeight / 2,
+			outputWidth / 2,
+			outputHeight / 2,
+			0,
+			0,
+			Math.PI * 2,
+		);
 		ctx.closePath();
 		ctx.clip();
+	} else if (options?.cornerRadius) {
+		ctx.beginPath();
+		traceRoundedRect(ctx, outputWidth, outputHeight, options.cornerRadius);
+		ctx.clip();
 	}
 
 	// Calculate source dimensions from points
 	const sourceWidth = points.bottomRightX - points.topLeftX;
 	const sourceHeight = points.bottomRightY - points.topLeftY;
 
-	// Draw the cropped region
-	ctx.drawImage(
-		image,
-		points.topLeftX,
-		points.topLeftY,
-		sourceWidth,
-		sourceHeight,
-		0,
-		0,
-		outputWidth,
-		outputHeight,
-	);
+	const resample = options?.resample ?? "browser";
+	if (
+		resample !== "browser" &&
+		(sourceWidth > outputWidth || sourceHeight > outputHeight)
+	) {
+		// Crop at full resolution, then reduce it with the requested filter
+		const crop = drawCroppedImage(
+			image,
+			points,
+			Math.round(sourceWidth),
+			Math.round(sourceHeight),
+			{ rotation: options?.rotation, flip: options?.flip, createCanvas },
+		);
+		ctx.drawImage(
+			resampleCanvas(crop, outputWidth, outputHeight, resample, createCanvas),
+			0,
+			0,
+		);
+		return canvas;
+	}
+
+	const rotation = (options?.rotation ?? 0) % 360;
+	const flip = options?.flip;
+
+	if (rotation === 0 && !flip?.horizontal && !flip?.vertical) {
+		// Draw the cropped region
+		ctx.drawImage(
+			image,
+			points.topLeftX,
+			points.topLeftY,
+			sourceWidth,
+			sourceHeight,
+			0,
+			0,
+			outputWidth,
+			outputHeight,
+		);
+		return canvas;
+	}
+
+	// Map the crop rectangle (rotated frame) onto the output, then draw the
+	// whole image flipped and rotated into that frame and let the canvas bounds clip it
+	const imageWidth = image.naturalWidth ?? image.width;
+	const imageHeight = image.naturalHeight ?? image.height;
+	ctx.scale(outputWidth / sourceWidth, outputHeight / sourceHeight);
+	ctx.translate(-points.topLeftX, -points.topLeftY);
+	applyRotation(ctx, imageWidth, imageHeight, rotation);
+	if (flip) {
+		applyFlip(ctx, imageWidth, imageHeight, flip);
+	}
+	ctx.drawImage(image, 0, 0);
 
 	return canvas;
 }
 
+/**
+ * Plan a progressive downscale: halve the size until the target is within a factor of two, then scale to the target.
+ *
+ * Browsers sample only a few source pixels per output pixel, so a single large reduction aliases;
+ * halving in steps averages every source pixel.
+ *
+ * @param fromWidth - Source width in pixels
+ * @param fromHeight - Source height in pixels
+ * @param toWidth - Target width in pixels
+ * @param toHeight - Target height in pixels
+ * @returns The intermediate sizes followed by the target size
+ */
+export function getDownscaleSteps(
+	fromWidth: number,
+	fromHeight: number,
+	toWidth: number,
+	toHeight: number,
+): Array<{ width: number; height: number }> {
+	const steps: Array<{ width: number; height: number }> = [];
+	let width = fromWidth;
+	let height = fromHeight;
+
+	while (width / 2 >= toWidth && height / 2 >= toHeight) {
+		width = Math.round(width / 2);
+		height = Math.round(height / 2);
+		if (width === toWidth && height === toHeight) {
+			break;
+		}
+		steps.push({ width, height });
+	}
+
+	steps.push({ width: toWidth, height: toHeight });
+	return steps;
+}
+
+/**
+ * Create a smaller copy of a canvas, downscaling in halving steps.
+ *
+ * @param source - The canvas to downscale
+ * @param width - Target width in pixels
+ * @param height - Target height in pixels
+ * @param createCanvas - Creates the intermediate and output canvases (default: DOM canvases)
+ * @returns A new canvas of `width` x `height`
+ * @throws If the 2D rendering context cannot be obtained from a created canvas.
+ */
+export function downscaleCanvas<C extends Canvas2DLike = HTMLCanvasElement>(
+	source: Canvas2DLike,
+	width: number,
+	height: number,
+	createCanvas: CanvasFactory<C> = createDomCanvas as CanvasFactory<Canvas2DLike> as CanvasFactory<C>,
+): C {
+	let current: Canvas2DLike = source;
+
+	for (const step of getDownscaleSteps(
+		source.width,
+		source.height,
+		width,
+		height,
+	)) {
+		const canvas = createCanvas(step.width, step.height);
+		const ctx = get2dContext(canvas);
+		ctx.imageSmoothingQuality = "high";
+		ctx.drawImage(current, 0, 0, step.width, step.height);
+		current = canvas;
+	}
+
+	// There is always at least the final step, so this is a created canvas
+	return current as C;
+}
+
+/**
+ * Create a resized copy of a canvas.
+ *
+ * @param source - The canvas to resize
+ * @param width - Target width in pixels
+ * @param height - Target height in pixels
+ * @param method - `"browser"` for a single `drawImage`, `"stepdown"` for halving steps (see `downscaleCanvas`), `"lanczos"` for a Lanczos filter
+ * @param createCanvas - Creates the intermediate and output canvases (default: DOM canvases)
+ * @returns A new canvas of `width` x `height`
+ * @throws If a 2D rendering context cannot be obtained.
+ */
+export function resampleCanvas<C extends Canvas2DLike = HTMLCanvasElement>(
+	source: Canvas2DLike,
+	width: number,
+	height: number,
+	method: ResampleMethod,
+	createCanvas: CanvasFactory<C> = createDomCanvas as CanvasFactory<Canvas2DLike> as CanvasFactory<C>,
+): C {
+	if (method === "stepdown") {
+		return downscaleCanvas(source, width, height, createCanvas);
+	}
+
+	const canvas = createCanvas(width, height);
+	const ctx = get2dContext(canvas);
+
+	if (method === "lanczos") {
+		const sourceCtx = get2dContext(source);
+		const pixels = resampleLanczos(
+			sourceCtx.getImageData(0, 0, source.width, source.height),
+			width,
+			height,
+		);
+		const imageData = ctx.createImageData(width, height);
+		imageData.data.set(pixels.data);
+		ctx.putImageData(imageData, 0, 0);
+	} else {
+		ctx.imageSmoothingQuality = "high";
+		ctx.drawImage(source, 0, 0, width, height);
+	}
+
+	return canvas;
+}
+
+/**
+ * Add a rectangle with rounded corners, starting at the origin, to the current path.
+ *
+ * @param ctx - The 2D context to draw the path on
+ * @param width - Rectangle width in pixels
+ * @param height - Rectangle height in pixels
+ * @param radius - Horizontal and vertical corner radii in pixels
+ */
+function traceRoundedRect(
+	ctx: Context2DLike,
+	width: number,
+	height: number,
+	radius: { x: number; y: number },
+): void {
+	const { x: rx, y: ry } = radius;
+	const quarter = Math.PI / 2;
+	ctx.moveTo(rx, 0);
+	ctx.ellipse(width - rx, ry, rx, ry, 0, -quarter, 0);
+	ctx.ellipse(width - rx, height - ry, rx, ry, 0, 0, quarter);
+	ctx.ellipse(rx, height - ry, rx, ry, 0, quarter, 2 * quarter);
+	ctx.ellipse(rx, ry, rx, ry, 0, 2 * quarter, 3 * quarter);
+	ctx.closePath();
+}
+
+/**
+ * Transform a context so that drawing an unrotated image at the origin renders it rotated clockwise
+ * by `rotation` degrees, centered in the bounding box of the rotated image whose top-left corner is
+ * at the origin.
+ *
+ * @param ctx - The 2D context to transform
+ * @param imageWidth - Unrotated image width in pixels
+ * @param imageHeight - Unrotated image height in pixels
+ * @param rotation - Clockwise rotation in degrees
+ */
+function applyRotation(
+	ctx: Context2DLike,
+	imageWidth: number,
+	imageHeight: number,
+	rotation: number,
+): void {
+	const box = getRotatedBoundingBox(imageWidth, imageHeight, rotation);
+	ctx.translate(box.width / 2, box.height / 2);
+	ctx.rotate((rotation * Math.PI) / 180);
+	ctx.translate(-imageWidth / 2, -imageHeight / 2);
+}
+
+/**
+ * Transform a context so that drawing an image at the origin renders it mirrored in place.
+ *
+ * @param ctx - The 2D context to transform
+ * @param imageWidth - Image width in pixels
+ * @param imageHeight - Image height in pixels
+ * @param flip - The axes to mirror
+ */
+function applyFlip(
+	ctx: Context2DLike,
+	imageWidth: number,
+	imageHeight: number,
+	flip: FlipState,
+): void {
+	ctx.translate(
+		flip.horizontal ? imageWidth : 0,
+		flip.vertical ? imageHeight : 0,
+	);
+	ctx.scale(flip.horizontal ? -1 : 1, flip.vertical ? -1 : 1);
+}
+
 /**
  * Creates a Blob containing the canvas image encoded in the specified format.
  *
@@ -0,0 +1,155 @@
+import type { OutputFormat } from "../types.ts";
+import {
+	type CanvasFactory,
+	type CanvasLike,
+	canvasToBlob,
+	resampleCanvas,
+} from "./draw.ts";
+
+/**
+ * An encoded image with the dimensions and quality it was encoded at
+ */
+export interface EncodedImage {
+	blob: Blob;
+	width: number;
+	height: number;
+	quality: number;
+}
+
+/** Lowest quality tried before giving up or shrinking the image */
+const MIN_QUALITY = 0.1;
+
+/** Bisection steps between the lowest and requested quality, enough for a precision below 0.01 */
+const QUALITY_SEARCH_STEPS = 7;
+
+/** Smallest width or height the image is shrunk to */
+const MIN_SHRINK_SIZE = 16;
+
+/**
+ * Encode a DOM or offscreen canvas.
+ *
+ * @param canvas - The canvas to encode
+ * @param format - Output image format; defaults to `"png"`
+ * @param quality - Quality between 0 and 1 for lossy formats; defaults to `0.92`
+ * @returns A Blob containing the encoded image
+ */
+export function encodeCanvas(
+	canvas: CanvasLike,
+	format: OutputFormat = "png",
+	quality = 0.92,
+): Promise<Blob> {
+	if ("convertToBlob" in canvas) {
+		return canvas.convertToBlob({ type: `image/${format}`, quality });
+	}
+	return canvasToBlob(canvas, format, quality);
+}
+
+/**
+ * Encode a canvas at the highest quality that fits in `maxBytes`.
+ *
+ * The quality is bisected between 0.1 and `options.quality`. PNG ignores the quality,
+ * so only shrinking can make it smaller. With `options.shrink`, the image is downscaled
+ * until the lowest quality fits.
+ *
+ * @param canvas - The canvas to encode
+ * @param maxBytes - Largest allowed size of the encoded image
+ * @param options - Output format, highest quality (default 0.92), whether to shrink the image, and the factory for shrunk canvases
+ * @returns The encoded image with the quality and dimensions that were used
+ * @throws If the image cannot be made small enough
+ */
+export async function encodeWithinBytes(
+	canvas: CanvasLike,
+	maxBytes: number,
+	options: {
+		format?: OutputFormat;
+		quality?: number;
+		shrink?: boolean;
+		createCanvas?: CanvasFactory;
+	} = {},
+): Promise<EncodedImage> {
+	const maxQuality = options.quality ?? 0.92;
+	let current = canvas;
+
+	for (;;) {
+		const encoded = await searchQuality(
+			current,
+			options.format ?? "png",
+			maxQuality,
+			maxBytes,
+		);
+		const { width, height } = current;
+		if (encoded.blob.size <= maxBytes) {
+			return { ...encoded, width, height };
+		}
+
+		if (
+			!options.shrink ||
+			width <= MIN_SHRINK_SIZE ||
+			height <= MIN_SHRINK_SIZE
+		) {
+			throw new Error(`Failed to encode result within ${maxBytes} bytes`);
+		}
+
+		// The encoded size grows roughly with the pixel count
+		const scale = Math.min(
+			0.9,
+			Math.max(0.5, Math.sqrt(maxBytes / encoded.blob.size)),
+		);
+		current = resampleCanvas(
+			current,
+			Math.max(MIN_SHRINK_SIZE, Math.round(width * scale)),
+			Math.max(MIN_SHRINK_SIZE, Math.round(height * scale)),
+			"stepdown",
+			options.createCanvas,
+		);
+	}
+}
+
+/**
+ * Bisect the quality for the highest one whose encoding fits in `maxBytes`.
+ *
+ * @returns The best fitting encoding, or the encoding at the lowest quality if none fits
+ */
+async function searchQuality(
+	canvas: CanvasLike,
+	format: OutputFormat,
+	maxQuality: number,
+	maxBytes: number,
+): Promise<{ blob: Blob; quality: number }> {
+	const first = await encodeCanvas(canvas, format, maxQuality);
+	if (first.size <= maxBytes || format === "png") {
+		return { blob: first, quality: maxQuality };
+	}
+
+	let low = Math.min(MIN_QUALITY, maxQuality);
+	let best = { blob: await encodeCanvas(canvas, format, low), quality: low };
+	if (best.blob.size > maxBytes) {
+		return best;
+	}
+
+	let high = maxQuality;
+	for (let i = 0; i < QUALITY_SEARCH_STEPS; i++) {
+		const quality = (low + high) / 2;
+		const blob = await encodeCanvas(canvas, format, quality);
+		if (blob.size <= maxBytes) {
+			best = { blob, quality };
+			low = quality;
+		} else {
+			high = quality;
+		}
+	}
+
+	return best;
+}
+
+/**
+ * Get the size of the data encoded in a base64 data URL.
+ *
+ * @param dataUrl - A `data:...;base64,` URL
+ * @returns The number of decoded bytes
+ */
+export function getDataUrlByteLength(dataUrl: string): number {
+	const base64 = dataUrl.slice(dataUrl.indexOf(",") + 1);
+	const padding = base64.endsWith("==") ? 2 : base64.endsWith("=") ? 1 : 0;
+	return Math.floor((base64.length * 3) / 4) - padding;
+}
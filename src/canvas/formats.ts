@@ -0,0 +1,98 @@
+import type { OutputFormat } from "../types.ts";
+import { canvasToBlob } from "./draw.ts";
+
+/** Every output format Croppie can request, in the order supportedFormats() reports them */
+export const OUTPUT_FORMATS: readonly OutputFormat[] = [
+	"png",
+	"jpeg",
+	"webp",
+	"avif",
+];
+
+/**
+ * Find the output formats the browser's canvas encoder produces.
+ *
+ * Browsers encode unsupported types as PNG instead of failing, so each format is
+ * probed by encoding a 1x1 canvas and checking the type of the resulting Blob.
+ *
+ * @returns The supported formats, in the order of `OUTPUT_FORMATS`
+ */
+export async function detectSupportedFormats(): Promise<OutputFormat[]> {
+	const canvas = document.createElement("canvas");
+	canvas.width = 1;
+	canvas.height = 1;
+
+	const supported = await Promise.all(
+		OUTPUT_FORMATS.map(async (format) => {
+			try {
+				const blob = await canvasToBlob(canvas, format);
+				return blob.type === `image/${format}`;
+			} catch {
+				return false;
+			}
+		}),
+	);
+	return OUTPUT_FORMATS.filter((_, i) => supported[i]);
+}
+
+/**
+ * Pick the output format for a result.
+ *
+ * @param format - A format, or formats in order of preference
+ * @returns The format itself, the first supported format of a list, or `"png"` when none is given
+ * @throws If none of the preferred formats is supported
+ */
+export async function resolveOutputFormat(
+	format: OutputFormat | readonly OutputFormat[] | undefined,
+): Promise<OutputFormat> {
+	if (format === undefined) {
+		return "png";
+	}
+	if (typeof format === "string") {
+		return format;
+	}
+
+	const supported = await detectSupportedFormats();
+	const match = format.find((candidate) => supported.includes(candidate));
+	if (!match) {
+		throw new Error(
+			`None of the output formats ${format.join(", ")} is supported by this browser`,
+		);
+	}
+	return match;
+}
+
+/**
+ * Check that the browser encoded the requested format.
+ *
+ * Browsers silently fall back to PNG for types their encoder does not support.
+ *
+ * @param mimeType - Type of the encoded Blob or data URL
+ * @param format - The requested format
+ * @param strict - Throw instead of warning when the formats differ
+ * @returns The format that was actually encoded
+ */
+export function checkEncodedFormat(
+	mimeType: string,
+	format: OutputFormat,
+	strict = false,
+): OutputFormat {
+	const encoded = mimeType.replace(/^image\//, "") as OutputFormat;
+	if (encoded === format) {
+		return format;
+	}
+
+	const message = `The browser encoded ${mimeType} instead of image/${format}`;
+	if (strict) {
+		throw new Error(message);
+	}
+	console.warn(`[@bayinformatics/croppie] ${message}.`);
+	return encoded;
+}
+
+/**
+ * Get the usual file extension of an output format, without the dot
+ */
+export function getFileExtension(format: OutputFormat): string {
+	return format === "jpeg" ? "jpg" : format;
+}
@@ -1 +1,45 @@
-export { drawCroppedImage, canvasToBlob, canvasToBase64 } from "./draw.ts";
+export {
+	drawCroppedImage,
+	downscaleCanvas,
+	getDownscaleSteps,
+	resampleCanvas,
+	canvasToBlob,
+	canvasToBase64,
+	type Canvas2DLike,
+	type CanvasFactory,
+	type CanvasLike,
+	type Context2DLike,
+	type CropSource,
+	type DrawOptions,
+	type PathFactory,
+} from "./draw.ts";
+export {
+	renderInWorker,
+	renderResult,
+	startResultWorker,
+	supportsWorkerResults,
+	type ResultWorkerScope,
+	type WorkerResultRequest,
+} from "./worker.ts";
+export {
+	encodeCanvas,
+	encodeWithinBytes,
+	getDataUrlByteLength,
+	type EncodedImage,
+} from "./encode.ts";
+export {
+	OUTPUT_FORMATS,
+	checkEncodedFormat,
+	detectSupportedFormats,
+	getFileExtension,
+	resolveOutputFormat,
+} from "./formats.ts";
+export {
+	embedMetadata,
+	encodeMetadata,
+	filterExif,
+	readImageMetadata,
+	type EncodedMetadata,
+	type ImageMetadata,
+} from "./metadata.ts";
+export { resampleLanczos, type PixelData } from "./resample.ts";
@@ -0,0 +1,648 @@
+import type { ExifField, OutputFormat } from "../types.ts";
+import {
+	type ImageBlock,
+	MAX_JPEG_SEGMENT_DATA,
+	getBlockByteLength,
+	isJpeg,
+	isPng,
+	readJpegSegments,
+	readPngChunks,
+	writeJpeg,
+	writePng,
+} from "./chunks.ts";
+
+/**
+ * Metadata to write into an encoded result
+ */
+export interface ImageMetadata {
+	/** Resolution in dots per inch */
+	dpi?: number;
+	/** ICC profile */
+	icc?: Uint8Array;
+	/** EXIF data as a TIFF structure, without the JPEG `Exif\0\0` header */
+	exif?: Uint8Array;
+}
+
+/**
+ * Metadata prepared for one output format, ready to be embedded into any number of images
+ */
+export interface EncodedMetadata {
+	format: "jpeg" | "png";
+	/** Segments or chunks to insert at the start of the file */
+	blocks: ImageBlock[];
+	/** Kinds of metadata whose existing blocks are replaced */
+	replaces: Array<keyof ImageMetadata>;
+	/** Largest number of bytes embedding adds to a file */
+	byteLength: number;
+}
+
+/** Directory of an EXIF field: IFD0, the Exif IFD or the GPS IFD */
+type ExifDirectory = "ifd0" | "exif" | "gps";
+
+/** Tags of the EXIF fields that can be copied, by directory */
+const EXIF_FIELD_TAGS: Record<
+	Exclude<ExifField, "GPS">,
+	[ExifDirectory, number]
+> = {
+	ImageDescription: ["ifd0", 0x010e],
+	Make: ["ifd0", 0x010f],
+	Model: ["ifd0", 0x0110],
+	Software: ["ifd0", 0x0131],
+	DateTime: ["ifd0", 0x0132],
+	Artist: ["ifd0", 0x013b],
+	Copyright: ["ifd0", 0x8298],
+	ExposureTime: ["exif", 0x829a],
+	FNumber: ["exif", 0x829d],
+	ISOSpeedRatings: ["exif", 0x8827],
+	DateTimeOriginal: ["exif", 0x9003],
+	DateTimeDigitized: ["exif", 0x9004],
+	FocalLength: ["exif", 0x920a],
+	LensMake: ["exif", 0xa433],
+	LensModel: ["exif", 0xa434],
+};
+
+/** IFD0 tags pointing to the Exif and GPS IFDs */
+const EXIF_IFD_POINTER = 0x8769;
+const GPS_IFD_POINTER = 0x8825;
+
+/** Bytes per value of the TIFF field types, by type number */
+const TIFF_TYPE_SIZES: Record<number, number> = {
+	1: 1, // BYTE
+	2: 1, // ASCII
+	3: 2, // SHORT
+	4: 4, // LONG
+	5: 8, // RATIONAL
+	6: 1, // SBYTE
+	7: 1, // UNDEFINED
+	8: 2, // SSHORT
+	9: 4, // SLONG
+	10: 8, // SRATIONAL
+	11: 4, // FLOAT
+	12: 8, // DOUBLE
+};
+
+/** TIFF LONG field type, used for the IFD pointers */
+const TIFF_LONG = 4;
+
+/** Identifiers at the start of the JPEG APP segments holding metadata */
+const JFIF_ID = "JFIF\0";
+const EXIF_ID = "Exif\0\0";
+const ICC_ID = "ICC_PROFILE\0";
+
+/** JPEG APP0 (JFIF), APP1 (EXIF) and APP2 (ICC) markers */
+const APP0 = 0xffe0;
+const APP1 = 0xffe1;
+const APP2 = 0xffe2;
+
+/** ICC profile bytes per APP2 segment, after the identifier and sequence numbers */
+const ICC_SEGMENT_DATA = MAX_JPEG_SEGMENT_DATA - ICC_ID.length - 2;
+
+/** Name of the profile in a PNG iCCP chunk */
+const ICC_PROFILE_NAME = "ICC profile";
+
+/** Existing blocks replaced by each kind of metadata */
+const REPLACED_PNG_CHUNKS: Record<keyof ImageMetadata, string[]> = {
+	dpi: ["pHYs"],
+	// An embedded profile must not be combined with an sRGB chunk
+	icc: ["iCCP", "sRGB"],
+	exif: ["eXIf"],
+};
+
+/**
+ * Entry of an image file directory, with its value bytes in the byte order of the file
+ */
+interface IfdEntry {
+	tag: number;
+	type: number;
+	count: number;
+	value: Uint8Array;
+}
+
+/**
+ * Read the ICC profile and EXIF data of a JPEG or PNG file.
+ *
+ * @param bytes - The image file
+ * @returns The metadata found; other formats and malformed files have none
+ */
+export async function readImageMetadata(
+	bytes: Uint8Array,
+): Promise<Pick<ImageMetadata, "icc" | "exif">> {
+	try {
+		if (isJpeg(bytes)) {
+			return readJpegMetadata(bytes);
+		}
+		if (isPng(bytes)) {
+			return await readPngMetadata(bytes);
+		}
+	} catch {
+		// Metadata is optional, so a broken header is treated as having none
+	}
+	return {};
+}
+
+/**
+ * Read the ICC profile (APP2, possibly split over several segments) and EXIF data (APP1) of a JPEG.
+ */
+function readJpegMetadata(
+	bytes: Uint8Array,
+): Pick<ImageMetadata, "icc" | "exif"> {
+	const { segments } = readJpegSegments(bytes);
+
+	const exif = segments.find(
+		(segment) => segment.type === APP1 && hasPrefix(segment.data, EXIF_ID),
+	);
+	const iccParts = segments
+		.filter(
+			(segment) => segment.type === APP2 && hasPrefix(segment.data, ICC_ID),
+		)
+		// The byte after the identifier is the 1-based sequence number
+		.sort((a, b) => (a.data[ICC_ID.length] ?? 0) - (b.data[ICC_ID.length] ?? 0))
+		.map((segment) => segment.data.subarray(ICC_ID.length + 2));
+
+	return {
+		exif: exif?.data.subarray(EXIF_ID.length),
+		icc: iccParts.length > 0 ? concatBytes(iccParts) : undefined,
+	};
+}
+
+/**
+ * Read the ICC profile (iCCP) and EXIF data (eXIf) of a PNG.
+ */
+async function readPngMetadata(
+	bytes: Uint8Array,
+): Promise<Pick<ImageMetadata, "icc" | "exif">> {
+	const chunks = readPngChunks(bytes);
+	const exif = chunks.find((chunk) => chunk.type === "eXIf");
+	const iccp = chunks.find((chunk) => chunk.type === "iCCP");
+
+	let icc: Uint8Array | undefined;
+	if (iccp) {
+		// Profile name, null separator and compression method precede the zlib stream
+		const nameEnd = iccp.data.indexOf(0);
+		icc = await transformBytes(
+			iccp.data.subarray(nameEnd + 2),
+			new DecompressionStream("deflate"),
+		);
+	}
+
+	return { exif: exif?.data, icc };
+}
+
+/**
+ * Keep selected fields of EXIF data.
+ *
+ * The fields are copied with their original values and byte order into a new TIFF
+ * structure. Everything else is dropped, including the Orientation tag, thumbnails and
+ * maker notes.
+ *
+ * @param tiff - EXIF data as a TIFF structure
+ * @param fields - Fields to keep
+ * @returns The filtered EXIF data, or `undefined` if none of the fields is present
+ */
+export function filterExif(
+	tiff: Uint8Array,
+	fields: readonly ExifField[],
+): Uint8Array | undefined {
+	const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+	if (tiff.length < 8) {
+		return undefined;
+	}
+	const byteOrder = view.getUint16(0);
+	if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) {
+		return undefined;
+	}
+	const littleEndian = byteOrder === 0x4949;
+
+	const keep = (directory: ExifDirectory) =>
+		new Set(
+			fields.flatMap((field) => {
+				if (field === "GPS") return [];
+				const [fieldDirectory, tag] = EXIF_FIELD_TAGS[field];
+				return fieldDirectory === directory ? [tag] : [];
+			}),
+		);
+
+	const ifd0 = readIfd(view, view.getUint32(4, littleEndian), littleEndian);
+	const pointer = (tag: number) => {
+		const entry = ifd0.find((candidate) => candidate.tag === tag);
+		return entry
+			? new DataView(entry.value.buffer, entry.value.byteOffset).getUint32(
+					0,
+					littleEndian,
+				)
+			: undefined;
+	};
+	const exifPointer = pointer(EXIF_IFD_POINTER);
+	const gpsPointer = pointer(GPS_IFD_POINTER);
+
+	const ifd0Tags = keep("ifd0");
+	const exifTags = keep("exif");
+	const directories = {
+		ifd0: ifd0.filter((entry) => ifd0Tags.has(entry.tag)),
+		exif:
+			exifPointer === undefined
+				? []
+				: readIfd(view, exifPointer, littleEndian).filter((entry) =>
+						exifTags.has(entry.tag),
+					),
+		gps:
+			gpsPointer === undefined || !fields.includes("GPS")
+				? []
+				: readIfd(view, gpsPointer, littleEndian),
+	};
+
+	if (
+		directories.ifd0.length +
+			directories.exif.length +
+			directories.gps.length ===
+		0
+	) {
+		return undefined;
+	}
+	return writeTiff(directories, littleEndian);
+}
+
+/**
+ * Read the entries of an image file directory, skipping entries of unknown types.
+ */
+function readIfd(
+	view: DataView,
+	offset: number,
+	littleEndian: boolean,
+): IfdEntry[] {
+	if (offset + 2 > view.byteLength) {
+		return [];
+	}
+
+	const entries: IfdEntry[] = [];
+	const count = view.getUint16(offset, littleEndian);
+	for (let i = 0; i < count; i++) {
+		const entry = offset + 2 + i * 12;
+		if (entry + 12 > view.byteLength) {
+			break;
+		}
+
+		const type = view.getUint16(entry + 2, littleEndian);
+		const valueCount = view.getUint32(entry + 4, littleEndian);
+		const typeSize = TIFF_TYPE_SIZES[type];
+		if (!typeSize) {
+			continue;
+		}
+
+		// Values of up to four bytes are stored in the entry itself
+		const size = typeSize * valueCount;
+		const start =
+			size <= 4 ? entry + 8 : view.getUint32(entry + 8, littleEndian);
+		if (start + size > view.byteLength) {
+			continue;
+		}
+
+		entries.push({
+			tag: view.getUint16(entry, littleEndian),
+			type,
+			count: valueCount,
+			value: new Uint8Array(view.buffer, view.byteOffset + start, size),
+		});
+	}
+	return entries;
+}
+
+/**
+ * Write IFD0 and, when they have entries, the Exif and GPS IFDs as a TIFF structure.
+ */
+function writeTiff(
+	directories: Record<ExifDirectory, IfdEntry[]>,
+	littleEndian: boolean,
+): Uint8Array {
+	const pointerEntry = (tag: number): IfdEntry => ({
+		tag,
+		type: TIFF_LONG,
+		count: 1,
+		value: new Uint8Array(4),
+	});
+	const ifd0 = [...directories.ifd0];
+	if (directories.exif.length > 0) ifd0.push(pointerEntry(EXIF_IFD_POINTER));
+	if (directories.gps.length > 0) ifd0.push(pointerEntry(GPS_IFD_POINTER));
+
+	const layout = [
+		{ tag: 0, entries: ifd0 },
+		{ tag: EXIF_IFD_POINTER, entries: directories.exif },
+		{ tag: GPS_IFD_POINTER, entries: directories.gps },
+	].filter(({ entries }) => entries.length > 0);
+
+	// Offsets of the directories follow from their sizes, so pointers can be set first
+	let offset = 8;
+	const offsets = layout.map(({ entries }) => {
+		const start = offset;
+		offset += getIfdByteLength(entries);
+		return start;
+	});
+	layout.forEach(({ tag }, i) => {
+		const entry = ifd0.find((candidate) => candidate.tag === tag);
+		if (entry) {
+			new DataView(entry.value.buffer).setUint32(
+				0,
+				offsets[i] ?? 0,
+				littleEndian,
+			);
+		}
+	});
+
+	const tiff = new Uint8Array(offset);
+	const view = new DataView(tiff.buffer);
+	view.setUint16(0, littleEndian ? 0x4949 : 0x4d4d);
+	view.setUint16(2, 42, littleEndian);
+	view.setUint32(4, 8, littleEndian);
+	layout.forEach(({ entries }, i) => {
+		writeIfd(view, offsets[i] ?? 0, entries, littleEndian);
+	});
+	return tiff;
+}
+
+/**
+ * Get the size of a directory with its entry count, entries, next-IFD offset and the
+ * values that do not fit in their entries, each padded to an even length.
+ */
+function getIfdByteLength(entries: IfdEntry[]): number {
+	return entries.reduce(
+		(sum, { value }) =>
+			sum + (value.length > 4 ? value.length + (value.length % 2) : 0),
+		2 + entries.length * 12 + 4,
+	);
+}
+
+/**
+ * Write a directory at the given offset, with its out-of-line values after it.
+ */
+function writeIfd(
+	view: DataView,
+	offset: number,
+	entries: IfdEntry[],
+	littleEndian: boolean,
+): void {
+	const bytes = new Uint8Array(view.buffer);
+	const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+	view.setUint16(offset, sorted.length, littleEndian);
+
+	let valueOffset = offset + 2 + sorted.length * 12 + 4;
+	sorted.forEach(({ tag, type, count, value }, i) => {
+		const entry = offset + 2 + i * 12;
+		view.setUint16(entry, tag, littleEndian);
+		view.setUint16(entry + 2, type, littleEndian);
+		view.setUint32(entry + 4, count, littleEndian);
+		if (value.length <= 4) {
+			bytes.set(value, entry + 8);
+		} else {
+			view.setUint32(entry + 8, valueOffset, littleEndian);
+			bytes.set(value, valueOffset);
+			valueOffset += value.length + (value.length % 2);
+		}
+	});
+	// The next-IFD offset stays 0
+}
+
+/**
+ * Prepare metadata for embedding into images of a format.
+ *
+ * @param metadata - The DPI, ICC profile and EXIF data to write
+ * @param format - Format of the images the metadata will be embedded into
+ * @returns The prepared metadata, or `null` if the format cannot carry it or there is nothing to write
+ */
+export async function encodeMetadata(
+	metadata: ImageMetadata,
+	format: OutputFormat,
+): Promise<EncodedMetadata | null> {
+	const replaces = (Object.keys(metadata) as Array<keyof ImageMetadata>).filter(
+		(kind) => metadata[kind] !== undefined,
+	);
+	if (replaces.length === 0) {
+		return null;
+	}
+
+	let blocks: ImageBlock[];
+	if (format === "jpeg") {
+		blocks = encodeJpegMetadata(metadata);
+	} else if (format === "png") {
+		blocks = await encodePngMetadata(metadata);
+	} else {
+		return null;
+	}
+
+	return {
+		format,
+		blocks,
+		replaces,
+		byteLength: blocks.reduce(
+			(sum, block) => sum + getBlockByteLength(block),
+			0,
+		),
+	};
+}
+
+/**
+ * Build the JFIF APP0, EXIF APP1 and ICC APP2 segments.
+ */
+function encodeJpegMetadata(metadata: ImageMetadata): ImageBlock[] {
+	const blocks: ImageBlock[] = [];
+
+	if (metadata.dpi !== undefined) {
+		const density = clampDensity(metadata.dpi, 0xffff);
+		const data = new Uint8Array(14);
+		const view = new DataView(data.buffer);
+		data.set(asciiBytes(JFIF_ID));
+		// Version 1.02, density in dots per inch, no thumbnail
+		data.set([1, 2, 1], 5);
+		view.setUint16(8, density);
+		view.setUint16(10, density);
+		blocks.push({ type: APP0, data });
+	}
+
+	if (metadata.exif) {
+		if (EXIF_ID.length + metadata.exif.length > MAX_JPEG_SEGMENT_DATA) {
+			throw new Error("EXIF data too large for a JPEG segment");
+		}
+		blocks.push({
+			type: APP1,
+			data: concatBytes([asciiBytes(EXIF_ID), metadata.exif]),
+		});
+	}
+
+	if (metadata.icc) {
+		const icc = metadata.icc;
+		const count = Math.ceil(icc.length / ICC_SEGMENT_DATA);
+		for (let i = 0; i < count; i++) {
+			blocks.push({
+				type: APP2,
+				data: concatBytes([
+					asciiBytes(ICC_ID),
+					new Uint8Array([i + 1, count]),
+					icc.subarray(i * ICC_SEGMENT_DATA, (i + 1) * ICC_SEGMENT_DATA),
+				]),
+			});
+		}
+	}
+
+	return blocks;
+}
+
+/**
+ * Build the pHYs, iCCP and eXIf chunks.
+ */
+async function encodePngMetadata(
+	metadata: ImageMetadata,
+): Promise<ImageBlock[]> {
+	const blocks: ImageBlock[] = [];
+
+	if (metadata.dpi !== undefined) {
+		// pHYs stores pixels per meter
+		const density = clampDensity(metadata.dpi / 0.0254, 0xffffffff);
+		const data = new Uint8Array(9);
+		const view = new DataView(data.buffer);
+		view.setUint32(0, density);
+		view.setUint32(4, density);
+		data[8] = 1;
+		blocks.push({ type: "pHYs", data });
+	}
+
+	if (metadata.icc) {
+		const compressed = await transformBytes(
+			metadata.icc,
+			new CompressionStream("deflate"),
+		);
+		blocks.push({
+			type: "iCCP",
+			// Null-terminated name, then compression method 0 (zlib)
+			data: concatBytes([asciiBytes(`${ICC_PROFILE_NAME}\0\0`), compressed]),
+		});
+	}
+
+	if (metadata.exif) {
+		blocks.push({ type: "eXIf", data: metadata.exif });
+	}
+
+	return blocks;
+}
+
+/**
+ * Write prepared metadata into an encoded image, replacing metadata of the same kinds.
+ *
+ * @param blob - A JPEG or PNG image
+ * @param metadata - Metadata prepared for the image's format
+ * @returns The image with the metadata, or the image unchanged if it is not in the prepared format
+ */
+export async function embedMetadata(
+	blob: Blob,
+	metadata: EncodedMetadata,
+): Promise<Blob> {
+	const bytes = new Uint8Array(await blob.arrayBuffer());
+
+	if (metadata.format === "jpeg" && isJpeg(bytes)) {
+		const { segments, scanOffset } = readJpegSegments(bytes);
+		const kept = segments.filter(
+			(segment) => !isReplacedJpegSegment(segment, metadata.replaces),
+		);
+		// JFIF requires its APP0 segment to come first
+		const jfif = kept.filter(
+			(segment) => segment.type === APP0 && hasPrefix(segment.data, JFIF_ID),
+		);
+		const rest = kept.filter((segment) => !jfif.includes(segment));
+		const jpeg = writeJpeg(
+			[...jfif, ...metadata.blocks, ...rest],
+			bytes.subarray(scanOffset),
+		);
+		return new Blob([jpeg as BlobPart], { type: blob.type });
+	}
+
+	if (metadata.format === "png" && isPng(bytes)) {
+		const replaced = new Set(
+			metadata.replaces.flatMap((kind) => REPLACED_PNG_CHUNKS[kind]),
+		);
+		const [header, ...chunks] = readPngChunks(bytes);
+		if (!header) {
+			return blob;
+		}
+		// Metadata chunks must come before the image data, so they follow the IHDR chunk
+		const png = writePng([
+			header,
+			...metadata.blocks,
+			...chunks.filter((chunk) => !replaced.has(chunk.type as string)),
+		]);
+		return new Blob([png as BlobPart], { type: blob.type });
+	}
+
+	return blob;
+}
+
+/**
+ * Check whether a JPEG segment holds metadata of a kind that is being replaced.
+ */
+function isReplacedJpegSegment(
+	segment: ImageBlock,
+	replaces: Array<keyof ImageMetadata>,
+): boolean {
+	switch (segment.type) {
+		case APP0:
+			return replaces.includes("dpi") && hasPrefix(segment.data, JFIF_ID);
+		case APP1:
+			return replaces.includes("exif") && hasPrefix(segment.data, EXIF_ID);
+		case APP2:
+			return replaces.includes("icc") && hasPrefix(segment.data, ICC_ID);
+		default:
+			return false;
+	}
+}
+
+/**
+ * Round a density to an integer between 1 and the largest value its field can hold.
+ */
+function clampDensity(value: number, max: number): number {
+	return Math.min(Math.max(Math.round(value), 1), max);
+}
+
+/**
+ * Check whether bytes start with an ASCII string.
+ */
+function hasPrefix(bytes: Uint8Array, prefix: string): boolean {
+	if (bytes.length < prefix.length) {
+		return false;
+	}
+	for (let i = 0; i < prefix.length; i++) {
+		if (bytes[i] !== prefix.charCodeAt(i)) {
+			return false;
+		}
+	}
+	return true;
+}
+
+/**
+ * Encode an ASCII string as bytes.
+ */
+function asciiBytes(text: string): Uint8Array {
+	return Uint8Array.from(text, (char) => char.charCodeAt(0));
+}
+
+/**
+ * Join byte arrays.
+ */
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+	const bytes = new Uint8Array(
+		parts.reduce((sum, part) => sum + part.length, 0),
+	);
+	let offset = 0;
+	for (const part of parts) {
+		bytes.set(part, offset);
+		offset += part.length;
+	}
+	return bytes;
+}
+
+/**
+ * Pass bytes through a zlib compression or decompression stream.
+ */
+async function transformBytes(
+	bytes: Uint8Array,
+	stream: CompressionStream | DecompressionStream,
+): Promise<Uint8Array> {
+	const output = new Blob([bytes as BlobPart]).stream().pipeThrough(stream);
+	return new Uint8Array(await new Response(output).arrayBuffer());
+}
@@ -0,0 +1,142 @@
+/**
+ * Pixel data in the layout of `ImageData`: unpremultiplied RGBA, row by row
+ */
+export interface PixelData {
+	data: Uint8ClampedArray;
+	width: number;
+	height: number;
+}
+
+/** Lobes of the Lanczos kernel; 3 keeps edges sharp without strong ringing */
+const LANCZOS_LOBES = 3;
+
+/**
+ * Evaluate the Lanczos kernel.
+ */
+function lanczos(x: number): number {
+	if (x === 0) {
+		return 1;
+	}
+	if (x <= -LANCZOS_LOBES || x >= LANCZOS_LOBES) {
+		return 0;
+	}
+	const px = Math.PI * x;
+	return (
+		(LANCZOS_LOBES * Math.sin(px) * Math.sin(px / LANCZOS_LOBES)) / (px * px)
+	);
+}
+
+/**
+ * Precompute the normalized filter taps that map each destination pixel to source pixels along one axis.
+ *
+ * When downscaling, the kernel is stretched to cover every source pixel that falls into a destination pixel.
+ *
+ * @param sourceSize - Number of source pixels along the axis
+ * @param targetSize - Number of destination pixels along the axis
+ * @returns The first source index and the weights of the taps for each destination pixel
+ */
+function getFilterTaps(
+	sourceSize: number,
+	targetSize: number,
+): Array<{ start: number; weights: Float64Array }> {
+	const scale = sourceSize / targetSize;
+	const stretch = Math.max(scale, 1);
+	const support = LANCZOS_LOBES * stretch;
+	const taps: Array<{ start: number; weights: Float64Array }> = [];
+
+	for (let i = 0; i < targetSize; i++) {
+		const center = (i + 0.5) * scale;
+		const start = Math.max(0, Math.floor(center - support));
+		const end = Math.min(sourceSize, Math.ceil(center + support));
+		const weights = new Float64Array(end - start);
+
+		let sum = 0;
+		for (let j = start; j < end; j++) {
+			const weight = lanczos((j + 0.5 - center) / stretch);
+			weights[j - start] = weight;
+			sum += weight;
+		}
+		if (sum !== 0) {
+			for (let j = 0; j < weights.length; j++) {
+				weights[j] = (weights[j] ?? 0) / sum;
+			}
+		}
+
+		taps.push({ start, weights });
+	}
+
+	return taps;
+}
+
+/**
+ * Resize pixel data with a separable Lanczos filter.
+ *
+ * Colors are weighted by alpha while filtering, so transparent pixels do not bleed
+ * dark fringes into their neighbours.
+ *
+ * @param source - The pixels to resize
+ * @param width - Target width in pixels
+ * @param height - Target height in pixels
+ * @returns New pixel data of `width` x `height`
+ */
+export function resampleLanczos(
+	source: PixelData,
+	width: number,
+	height: number,
+): PixelData {
+	const { data, width: sourceWidth, height: sourceHeight } = source;
+
+	// Horizontal pass into premultiplied floating point rows
+	const columnTaps = getFilterTaps(sourceWidth, width);
+	const rows = new Float64Array(width * sourceHeight * 4);
+	for (let y = 0; y < sourceHeight; y++) {
+		for (const [x, { start, weights }] of columnTaps.entries()) {
+			let r = 0;
+			let g = 0;
+			let b = 0;
+			let a = 0;
+			for (let k = 0; k < weights.length; k++) {
+				const offset = (y * sourceWidth + start + k) * 4;
+				const weight = (weights[k] ?? 0) * (data[offset + 3] ?? 0);
+				r += (data[offset] ?? 0) * weight;
+				g += (data[offset + 1] ?? 0) * weight;
+				b += (data[offset + 2] ?? 0) * weight;
+				a += weight;
+			}
+			const target = (y * width + x) * 4;
+			rows[target] = r;
+			rows[target + 1] = g;
+			rows[target + 2] = b;
+			rows[target + 3] = a;
+		}
+	}
+
+	// Vertical pass, then back to unpremultiplied bytes
+	const rowTaps = getFilterTaps(sourceHeight, height);
+	const output = new Uint8ClampedArray(width * height * 4);
+	for (const [y, { start, weights }] of rowTaps.entries()) {
+		for (let x = 0; x < width; x++) {
+			let r = 0;
+			let g = 0;
+			let b = 0;
+			let a = 0;
+			for (let k = 0; k < weights.length; k++) {
+				const offset = ((start + k) * width + x) * 4;
+				const weight = weights[k] ?? 0;
+				r += (rows[offset] ?? 0) * weight;
+				g += (rows[offset + 1] ?? 0) * weight;
+				b += (rows[offset + 2] ?? 0) * weight;
+				a += (rows[offset + 3] ?? 0) * weight;
+			}
+			const target = (y * width + x) * 4;
+			if (a > 0) {
+				output[target] = r / a;
+				output[target + 1] = g / a;
+				output[target + 2] = b / a;
+			}
+			output[target + 3] = a;
+		}
+	}
+
+	return { data: output, width, height };
+}
@@ -0,0 +1,148 @@
+import type { CropPoints, OutputFormat } from "../types.ts";
+import { type DrawOptions, drawCroppedImage } from "./draw.ts";
+import {
+	type EncodedImage,
+	encodeCanvas,
+	encodeWithinBytes,
+} from "./encode.ts";
+
+/**
+ * A crop to draw and encode in a worker
+ */
+export interface WorkerResultRequest {
+	/** The source image, transferred to the worker */
+	image: ImageBitmap;
+	/** Crop rectangle in source-image pixels */
+	points: CropPoints;
+	/** Output width in pixels */
+	width: number;
+	/** Output height in pixels */
+	height: number;
+	/** Mask, background, rotation, flip and resampling of the output */
+	options: DrawOptions;
+	/** Output format (default: png) */
+	format?: OutputFormat;
+	/** JPEG/WebP quality (default: 0.92), the highest quality tried with `maxBytes` */
+	quality?: number;
+	/** Largest encoded size in bytes */
+	maxBytes?: number;
+	/** Reduce the dimensions when `maxBytes` is not reached at the lowest quality */
+	shrinkToFit?: boolean;
+}
+
+type WorkerResultResponse = { result: EncodedImage } | { error: string };
+
+/**
+ * The parts of a worker's global scope used to answer result requests
+ */
+export interface ResultWorkerScope {
+	onmessage: ((event: MessageEvent<WorkerResultRequest>) => void) | null;
+	postMessage(message: WorkerResultResponse): void;
+}
+
+/**
+ * Whether results can be drawn in a worker: needs module workers, `OffscreenCanvas.convertToBlob` and `createImageBitmap`.
+ */
+export function supportsWorkerResults(): boolean {
+	return (
+		typeof Worker !== "undefined" &&
+		typeof OffscreenCanvas !== "undefined" &&
+		typeof OffscreenCanvas.prototype.convertToBlob === "function" &&
+		typeof createImageBitmap === "function"
+	);
+}
+
+/**
+ * Draw and encode a crop on `OffscreenCanvas`.
+ *
+ * @param request - The crop to draw; its bitmap is closed afterwards
+ * @returns The encoded image with the quality and dimensions that were used
+ */
+export async function renderResult(
+	request: WorkerResultRequest,
+): Promise<EncodedImage> {
+	const createCanvas = (width: number, height: number) =>
+		new OffscreenCanvas(width, height);
+	const canvas = drawCroppedImage(
+		request.image,
+		request.points,
+		request.width,
+		request.height,
+		{ ...request.options, createCanvas },
+	);
+	request.image.close();
+
+	if (request.maxBytes !== undefined) {
+		return encodeWithinBytes(canvas, request.maxBytes, {
+			format: request.format,
+			quality: request.quality,
+			shrink: request.shrinkToFit,
+			createCanvas,
+		});
+	}
+
+	const quality = request.quality ?? 0.92;
+	return {
+		blob: await encodeCanvas(canvas, request.format, quality),
+		width: canvas.width,
+		height: canvas.height,
+		quality,
+	};
+}
+
+/**
+ * Answer result requests posted to a worker. `src/result-worker.ts` calls this in the workers started by `renderInWorker`.
+ *
+ * @param scope - The worker's global scope (`self`)
+ */
+export function startResultWorker(scope: ResultWorkerScope): void {
+	scope.onmessage = async (event) => {
+		try {
+			scope.postMessage({ result: await renderResult(event.data) });
+		} catch (error) {
+			scope.postMessage({
+				error: error instanceof Error ? error.message : String(error),
+			});
+		}
+	};
+}
+
+/**
+ * Draw and encode a crop in a short-lived module worker.
+ *
+ * The worker runs `result-worker.js`, which is built next to the library and calls `startResultWorker`.
+ * The URL is written as `new URL(..., import.meta.url)` so that bundlers find and emit the worker.
+ *
+ * @param image - The loaded source image; a bitmap copy is moved into the worker
+ * @param request - The crop to draw
+ * @returns The encoded image with the quality and dimensions that were used
+ * @throws If the worker cannot be started or fails to draw or encode the crop
+ */
+export async function renderInWorker(
+	image: HTMLImageElement,
+	request: Omit<WorkerResultRequest, "image">,
+): Promise<EncodedImage> {
+	const bitmap = await createImageBitmap(image);
+	const worker = new Worker(new URL("./result-worker.js", import.meta.url), {
+		type: "module",
+	});
+
+	try {
+		return await new Promise<EncodedImage>((resolve, reject) => {
+			worker.onmessage = (event: MessageEvent<WorkerResultResponse>) => {
+				if ("result" in event.data) {
+					resolve(event.data.result);
+				} else {
+					reject(new Error(event.data.error));
+				}
+			};
+			worker.onerror = (event) => {
+				event.preventDefault();
+				reject(new Error(event.message || "Failed to start result worker"));
+			};
+			worker.postMessage({ ...request, image: bitmap }, [bitmap]);
+		});
+	} finally {
+		worker.terminate();
+	}
+}
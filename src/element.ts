@@ -0,0 +1,377 @@
+/**
+ * @bayinformatics/croppie/element
+ *
+ * Defines the `<croppie-cropper>` custom element when imported.
+ *
+ * @packageDocumentation
+ */
+
+import { Croppie } from "./Croppie.ts";
+import type {
+	CroppieEvents,
+	CroppieOptions,
+	OutputFormat,
+	ResultOptions,
+	ResultValue,
+	SetDataOptions,
+	ViewportType,
+} from "./types.ts";
+import { debounce } from "./utils/index.ts";
+
+/** Tag name the element is defined as */
+export const CROPPIE_ELEMENT_TAG = "croppie-cropper";
+
+/** Attributes that recreate the cropper when they change */
+const OPTION_ATTRIBUTES = [
+	"viewport-width",
+	"viewport-height",
+	"viewport-type",
+	"boundary-width",
+	"boundary-height",
+	"show-zoomer",
+];
+
+/** Attributes that change how the crop is submitted with a form */
+const FORM_VALUE_ATTRIBUTES = ["value-type", "format", "quality"];
+
+/** Croppie events re-dispatched from the element as CustomEvents */
+const FORWARDED_EVENTS: (keyof CroppieEvents)[] = ["update", "zoom"];
+
+/** Viewport size when `viewport-width` is not set */
+const DEFAULT_VIEWPORT_SIZE = 100;
+
+/** Delay after the last change before the crop is encoded for a `value-type="file"` form value */
+const FILE_VALUE_DELAY = 300;
+
+/**
+ * A cropper configured from attributes
+ *
+ * `viewport-width`, `viewport-height`, `viewport-type`, `boundary-width`, `boundary-height` and
+ * `show-zoomer="false"` map onto `CroppieOptions`; other options can be set with the `options`
+ * property. The image in `src` is bound whenever it changes. Croppie's `update` and `zoom` events
+ * are dispatched as CustomEvents with the event data as `detail`, and a failed bind dispatches
+ * an `error` event. The cropper is destroyed when the element is removed from the document.
+ *
+ * The element is form-associated: with a `name`, forms submit the crop data from `get()` as
+ * JSON, or with `value-type="file"` the cropped image encoded as `format` (default png) at
+ * `quality`. The `value` attribute holds crop data applied after binding and on form reset.
+ *
+ * @example
+ * ```html
+ * <croppie-cropper src="photo.jpg" viewport-width="200" viewport-type="circle"></croppie-cropper>
+ * ```
+ */
+export class CroppieElement extends HTMLElement {
+	static readonly formAssociated = true;
+
+	static get observedAttributes(): string[] {
+		return [...OPTION_ATTRIBUTES, ...FORM_VALUE_ATTRIBUTES, "src"];
+	}
+
+	private instance: Croppie | null = null;
+	private extraOptions: Partial<CroppieOptions> = {};
+	private binding: Promise<void> = Promise.resolve();
+	private bound = false;
+	private readonly internals: ElementInternals | null =
+		"attachInternals" in this ? this.attachInternals() : null;
+	private restoredData: SetDataOptions | null = null;
+	private fileValueRequest = 0;
+	private scheduleFileValue = debounce(
+		() => this.updateFileValue(),
+		FILE_VALUE_DELAY,
+	);
+
+	/**
+	 * The underlying cropper while the element is connected
+	 */
+	get croppie(): Croppie | null {
+		return this.instance;
+	}
+
+	/**
+	 * Options not covered by attributes; attributes take precedence. Setting them recreates the cropper.
+	 */
+	get options(): Partial<CroppieOptions> {
+		return this.extraOptions;
+	}
+
+	set options(value: Partial<CroppieOptions>) {
+		this.extraOptions = value;
+		this.recreate();
+	}
+
+	/**
+	 * URL of the image to crop
+	 */
+	get src(): string {
+		return this.getAttribute("src") ?? "";
+	}
+
+	set src(value: string) {
+		this.setAttribute("src", value);
+	}
+
+	/**
+	 * Name the crop is submitted under
+	 */
+	get name(): string {
+		return this.getAttribute("name") ?? "";
+	}
+
+	set name(value: string) {
+		this.setAttribute("name", value);
+	}
+
+	/**
+	 * The form the element belongs to
+	 */
+	get form(): HTMLFormElement | null {
+		return this.internals?.form ?? null;
+	}
+
+	/**
+	 * The current crop data as JSON, or an empty string before an image is bound
+	 */
+	get value(): string {
+		return this.instance && this.bound
+			? JSON.stringify(this.instance.get())
+			: "";
+	}
+
+	connectedCallback(): void {
+		this.create();
+	}
+
+	disconnectedCallback(): void {
+		this.instance?.destroy();
+		this.instance = null;
+	}
+
+	attributeChangedCallback(
+		name: string,
+		oldValue: string | null,
+		newValue: string | null,
+	): void {
+		if (oldValue === newValue) return;
+
+		if (name === "src") {
+			this.bindSource();
+		} else if (FORM_VALUE_ATTRIBUTES.includes(name)) {
+			this.updateFormValue();
+		} else {
+			this.recreate();
+		}
+	}
+
+	/**
+	 * Gets the current cropped result once the image in `src` is bound
+	 *
+	 * @throws If the element is not connected or no image is bound
+	 */
+	async result(options: ResultOptions): Promise<ResultValue> {
+		await this.binding;
+		if (!this.instance) {
+			throw new Error("The cropper element is not connected");
+		}
+		return this.instance.result(options);
+	}
+
+	formResetCallback(): void {
+		this.restoredData = null;
+		if (!this.instance || !this.bound) return;
+
+		const data = this.getDefaultData();
+		if (data) {
+			this.instance.setData(data);
+		} else {
+			this.instance.reset();
+		}
+	}
+
+	formStateRestoreCallback(state: string | File | FormData | null): void {
+		// Only crop data can be restored; a file would have to be decoded again
+		if (typeof state !== "string" || !state) return;
+
+		this.restoredData = parseCropData(state);
+		if (this.instance && this.bound && this.restoredData) {
+			this.instance.setData(this.restoredData);
+		}
+	}
+
+	/**
+	 * Builds the Croppie options from the attributes and the `options` property
+	 */
+	private getCroppieOptions(): CroppieOptions {
+		const width =
+			this.getNumberAttribute("viewport-width") ??
+			this.extraOptions.viewport?.width ??
+			DEFAULT_VIEWPORT_SIZE;
+		const height =
+			this.getNumberAttribute("viewport-height") ??
+			this.extraOptions.viewport?.height ??
+			width;
+		const type =
+			(this.getAttribute("viewport-type") as ViewportType | null) ??
+			this.extraOptions.viewport?.type ??
+			"square";
+
+		const boundaryWidth = this.getNumberAttribute("boundary-width");
+		const boundaryHeight = this.getNumberAttribute("boundary-height");
+		const boundary =
+			boundaryWidth !== undefined || boundaryHeight !== undefined
+				? {
+						width: boundaryWidth ?? width + 100,
+						height: boundaryHeight ?? height + 100,
+					}
+				: this.extraOptions.boundary;
+
+		const showZoomer = this.getAttribute("show-zoomer");
+
+		return {
+			...this.extraOptions,
+			viewport: { ...this.extraOptions.viewport, width, height, type },
+			boundary,
+			showZoomer:
+				showZoomer === null
+					? this.extraOptions.showZoomer
+					: showZoomer !== "false",
+		};
+	}
+
+	/**
+	 * Reads a numeric attribute, ignoring missing and invalid values
+	 */
+	private getNumberAttribute(name: string): number | undefined {
+		const value = Number.parseFloat(this.getAttribute(name) ?? "");
+		return Number.isFinite(value) ? value : undefined;
+	}
+
+	/**
+	 * Creates the cropper inside the element and binds the image in `src`
+	 */
+	private create(): void {
+		const croppie = new Croppie(this, this.getCroppieOptions());
+		for (const event of FORWARDED_EVENTS) {
+			croppie.on(event, (detail) => {
+				this.dispatchEvent(new CustomEvent(event, { detail, bubbles: true }));
+			});
+		}
+		croppie.on("update", () => this.updateFormValue());
+		this.instance = croppie;
+		this.bound = false;
+		this.updateFormValue();
+		this.bindSource();
+	}
+
+	/**
+	 * Replaces a connected cropper after its options changed
+	 */
+	private recreate(): void {
+		if (!this.instance) return;
+
+		this.disconnectedCallback();
+		this.create();
+	}
+
+	/**
+	 * Binds the image in `src`, dispatching an `error` event if it fails to load
+	 */
+	private bindSource(): void {
+		const croppie = this.instance;
+		const src = this.getAttribute("src");
+		if (!croppie || !src) return;
+
+		this.bound = false;
+		this.binding = croppie.bind({ url: src }).then(
+			() => {
+				// A newer cropper has replaced this one
+				if (croppie !== this.instance) return;
+
+				this.bound = true;
+				const data = this.restoredData ?? this.getDefaultData();
+				if (data) {
+					// Emits an update, which sets the form value
+					croppie.setData(data);
+				} else {
+					this.updateFormValue();
+				}
+			},
+			(error: unknown) => {
+				if (croppie !== this.instance) return;
+				this.dispatchEvent(new CustomEvent("error", { detail: error }));
+			},
+		);
+	}
+
+	/**
+	 * Reads the crop data in the `value` attribute
+	 */
+	private getDefaultData(): SetDataOptions | null {
+		const value = this.getAttribute("value");
+		return value ? parseCropData(value) : null;
+	}
+
+	/**
+	 * Sets the submitted value to the crop data, or schedules encoding the cropped image
+	 */
+	private updateFormValue(): void {
+		if (!this.internals) return;
+
+		if (!this.instance || !this.bound) {
+			this.fileValueRequest++;
+			this.internals.setFormValue(null);
+		} else if (this.getAttribute("value-type") === "file") {
+			this.scheduleFileValue();
+		} else {
+			this.internals.setFormValue(this.value);
+		}
+	}
+
+	/**
+	 * Encodes the crop and submits it as a file, unless the crop changed in the meantime
+	 */
+	private async updateFileValue(): Promise<void> {
+		const croppie = this.instance;
+		if (!this.internals || !croppie || !this.bound) return;
+
+		const request = ++this.fileValueRequest;
+		const quality = Number.parseFloat(this.getAttribute("quality") ?? "");
+		try {
+			const file = (await croppie.result({
+				type: "file",
+				format: (this.getAttribute("format") as OutputFormat | null) ?? "png",
+				quality: Number.isFinite(quality) ? quality : undefined,
+			})) as File;
+			if (request === this.fileValueRequest && croppie === this.instance) {
+				// Keep the crop data as the state restored on back navigation
+				this.internals.setFormValue(file, this.value);
+			}
+		} catch (error) {
+			this.dispatchEvent(new CustomEvent("error", { detail: error }));
+		}
+	}
+}
+
+/**
+ * Parses crop data from JSON, warning about invalid values
+ */
+function parseCropData(json: string): SetDataOptions | null {
+	try {
+		return JSON.parse(json) as SetDataOptions;
+	} catch {
+		console.warn(
+			`[@bayinformatics/croppie] Ignoring invalid crop data: ${json}`,
+		);
+		return null;
+	}
+}
+
+if (!customElements.get(CROPPIE_ELEMENT_TAG)) {
+	customElements.define(CROPPIE_ELEMENT_TAG, CroppieElement);
+}
+
+declare global {
+	interface HTMLElementTagNameMap {
+		"croppie-cropper": CroppieElement;
+	}
+}
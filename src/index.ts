@@ -8,20 +8,45 @@
  */
 
 export { Croppie } from "./Croppie.ts";
+export { CropEngine } from "./CropEngine.ts";
+export type {
+	Canvas2DLike,
+	CanvasFactory,
+	CanvasLike,
+	Context2DLike,
+	CropSource,
+	PathFactory,
+} from "./canvas/index.ts";
 export type {
 	CroppieOptions,
+	CropEngineOptions,
 	CroppieData,
 	CroppieEvents,
 	CroppieEventHandler,
+	CroppieLabels,
 	BindOptions,
+	SetDataOptions,
 	ResultOptions,
+	ResultInfo,
+	ResultValue,
+	ResultMetadata,
+	ExifField,
+	MultiResultOptions,
+	ResultSize,
 	CropPoints,
 	Viewport,
 	Boundary,
 	ZoomConfig,
+	KeyboardConfig,
+	StraightenConfig,
+	ResizeConfig,
+	ResizeDirection,
+	FlipDirection,
+	FlipState,
 	ViewportType,
 	OutputFormat,
 	OutputType,
+	ResampleMethod,
 } from "./types.ts";
 
 // Default export for convenience
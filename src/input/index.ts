@@ -1,6 +1,16 @@
 export { createDragHandler, type DragCallbacks } from "./drag.ts";
+export { createKeyboardHandler, type KeyboardActions } from "./keyboard.ts";
 export {
+	calculateResize,
+	createResizeHandler,
+	type ResizeCallbacks,
+	type ResizeLimits,
+} from "./resize.ts";
+export {
+	calculateAnchoredPosition,
 	createWheelZoomHandler,
 	createPinchZoomHandler,
+	getWheelZoomFactor,
+	type ZoomAnchor,
 	type ZoomCallbacks,
 } from "./zoom.ts";
@@ -0,0 +1,72 @@
+import type { KeyboardConfig } from "../types.ts";
+
+/**
+ * Actions triggered by keyboard shortcuts
+ */
+export interface KeyboardActions {
+	/** Move the image by the given offset in pixels */
+	pan: (deltaX: number, deltaY: number) => void;
+	/** Multiply the zoom by the given factor */
+	zoom: (factor: number) => void;
+	/** Rotate the image clockwise by the given degrees */
+	rotate: (degrees: 90 | -90) => void;
+}
+
+const ARROW_DIRECTIONS: Record<string, [number, number]> = {
+	ArrowLeft: [-1, 0],
+	ArrowRight: [1, 0],
+	ArrowUp: [0, -1],
+	ArrowDown: [0, 1],
+};
+
+/**
+ * Attach keyboard panning, zooming and rotation to an element.
+ *
+ * Makes the element focusable and handles these keys while it has focus:
+ * - Arrow keys move the image by `config.panStep` pixels (`config.panStepLarge` with Shift)
+ * - `+` (or `=`) and `-` zoom in and out by `config.zoomStep`
+ * - `R` rotates 90° clockwise (counter-clockwise with Shift)
+ *
+ * Key presses with Ctrl, Meta or Alt held are left to the browser.
+ *
+ * @param element - The HTMLElement to make focusable and listen on
+ * @param actions - Functions that pan, zoom and rotate the image
+ * @param config - Step sizes for panning and zooming
+ * @returns A cleanup function that removes the installed event listener
+ */
+export function createKeyboardHandler(
+	element: HTMLElement,
+	actions: KeyboardActions,
+	config: KeyboardConfig,
+): () => void {
+	const handleKeyDown = (e: KeyboardEvent) => {
+		if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+		const direction = ARROW_DIRECTIONS[e.key];
+		if (direction) {
+			const step = e.shiftKey ? config.panStepLarge : config.panStep;
+			actions.pan(direction[0] * step, direction[1] * step);
+		} else if (e.key === "+" || e.key === "=") {
+			actions.zoom(1 + config.zoomStep);
+		} else if (e.key === "-") {
+			actions.zoom(1 / (1 + config.zoomStep));
+		} else if (e.key === "r" || e.key === "R") {
+			actions.rotate(e.shiftKey ? -90 : 90);
+		} else {
+			return;
+		}
+
+		e.preventDefault();
+	};
+
+	element.addEventListener("keydown", handleKeyDown);
+
+	if (!element.hasAttribute("tabindex")) {
+		element.tabIndex = 0;
+	}
+
+	// Return cleanup function
+	return () => {
+		element.removeEventListener("keydown", handleKeyDown);
+	};
+}
@@ -0,0 +1,180 @@
+import type { ResizeDirection } from "../types.ts";
+import { clamp } from "../utils/clamp.ts";
+
+/**
+ * Resolved size limits for viewport resizing
+ */
+export interface ResizeLimits {
+	minWidth: number;
+	maxWidth: number;
+	minHeight: number;
+	maxHeight: number;
+	/** Locked width / height ratio */
+	aspectRatio?: number;
+}
+
+export interface ResizeCallbacks {
+	onStart?: (size: { width: number; height: number }) => void;
+	onEnd?: (size: { width: number; height: number }) => void;
+}
+
+interface ResizeState {
+	direction: ResizeDirection | null;
+	startX: number;
+	startY: number;
+	startWidth: number;
+	startHeight: number;
+}
+
+/**
+ * Compute the viewport size after dragging a resize handle.
+ *
+ * The viewport stays centered in the boundary, so both opposite edges move: dragging the
+ * east handle 10px to the right grows the width by 20px. With a locked aspect ratio, edge
+ * handles drive the other dimension and corner handles follow the larger relative change.
+ * Sizes are rounded to whole pixels, so results and masks line up with the CSS preview.
+ *
+ * @param direction - The handle being dragged
+ * @param startWidth - Viewport width when the drag started
+ * @param startHeight - Viewport height when the drag started
+ * @param deltaX - Horizontal pointer movement since the drag started
+ * @param deltaY - Vertical pointer movement since the drag started
+ * @param limits - Size limits and optional aspect ratio
+ * @returns The new viewport width and height in whole pixels, clamped to `limits`
+ */
+export function calculateResize(
+	direction: ResizeDirection,
+	startWidth: number,
+	startHeight: number,
+	deltaX: number,
+	deltaY: number,
+	limits: ResizeLimits,
+): { width: number; height: number } {
+	const dirX = direction.includes("e") ? 1 : direction.includes("w") ? -1 : 0;
+	const dirY = direction.includes("s") ? 1 : direction.includes("n") ? -1 : 0;
+
+	let width = startWidth + 2 * dirX * deltaX;
+	let height = startHeight + 2 * dirY * deltaY;
+
+	const ratio = limits.aspectRatio;
+	if (!ratio) {
+		return {
+			width: Math.round(clamp(width, limits.minWidth, limits.maxWidth)),
+			height: Math.round(clamp(height, limits.minHeight, limits.maxHeight)),
+		};
+	}
+
+	const widthChange = Math.abs(width - startWidth) / startWidth;
+	const heightChange = Math.abs(height - startHeight) / startHeight;
+	if (dirY === 0 || (dirX !== 0 && widthChange >= heightChange)) {
+		height = width / ratio;
+	} else {
+		width = height * ratio;
+	}
+
+	// Clamp the width to the whole pixels where both dimensions satisfy the limits
+	const minWidth = Math.ceil(
+		Math.max(limits.minWidth, limits.minHeight * ratio),
+	);
+	const maxWidth = Math.floor(
+		Math.min(limits.maxWidth, limits.maxHeight * ratio),
+	);
+	width = clamp(Math.round(width), minWidth, maxWidth);
+
+	return { width, height: Math.round(width / ratio) };
+}
+
+/**
+ * Attach pointer-based resizing to a set of viewport resize handles.
+ *
+ * Each handle must carry its direction in a `data-direction` attribute. Pointer events on a
+ * handle are not propagated, so dragging a handle does not also pan the image.
+ *
+ * @param handles - The handle elements to listen on
+ * @param getSize - Function that returns the current viewport size
+ * @param setSize - Function called with the new viewport size while a handle is dragged
+ * @param limits - Size limits and optional aspect ratio applied to the new size
+ * @param callbacks - Optional callbacks invoked when a resize starts and ends
+ * @returns A cleanup function that removes the installed event listeners
+ */
+export function createResizeHandler(
+	handles: HTMLElement[],
+	getSize: () => { width: number; height: number },
+	setSize: (width: number, height: number) => void,
+	limits: ResizeLimits,
+	callbacks?: ResizeCallbacks,
+): () => void {
+	const state: ResizeState = {
+		direction: null,
+		startX: 0,
+		startY: 0,
+		startWidth: 0,
+		startHeight: 0,
+	};
+
+	const handlePointerDown = (e: PointerEvent) => {
+		if (e.button !== 0) return; // Only left click
+
+		const handle = e.currentTarget as HTMLElement;
+		const direction = handle.dataset.direction as ResizeDirection | undefined;
+		if (!direction) return;
+
+		e.stopPropagation();
+		e.preventDefault();
+
+		const size = getSize();
+		state.direction = direction;
+		state.startX = e.clientX;
+		state.startY = e.clientY;
+		state.startWidth = size.width;
+		state.startHeight = size.height;
+
+		handle.setPointerCapture(e.pointerId);
+
+		callbacks?.onStart?.(size);
+	};
+
+	const handlePointerMove = (e: PointerEvent) => {
+		if (!state.direction) return;
+
+		e.stopPropagation();
+
+		const size = calculateResize(
+			state.direction,
+			state.startWidth,
+			state.startHeight,
+			e.clientX - state.startX,
+			e.clientY - state.startY,
+			limits,
+		);
+		setSize(size.width, size.height);
+	};
+
+	const handlePointerUp = (e: PointerEvent) => {
+		if (!state.direction) return;
+
+		e.stopPropagation();
+
+		state.direction = null;
+		(e.currentTarget as HTMLElement).releasePointerCapture(e.pointerId);
+
+		callbacks?.onEnd?.(getSize());
+	};
+
+	for (const handle of handles) {
+		handle.addEventListener("pointerdown", handlePointerDown);
+		handle.addEventListener("pointermove", handlePointerMove);
+		handle.addEventListener("pointerup", handlePointerUp);
+		handle.addEventListener("pointercancel", handlePointerUp);
+	}
+
+	// Return cleanup function
+	return () => {
+		for (const handle of handles) {
+			handle.removeEventListener("pointerdown", handlePointerDown);
+			handle.removeEventListener("pointermove", handlePointerMove);
+			handle.removeEventListener("pointerup", handlePointerUp);
+			handle.removeEventListener("pointercancel", handlePointerUp);
+		}
+	};
+}
@@ -1,23 +1,124 @@
 import type { ZoomConfig } from "../types.ts";
 import { clamp } from "../utils/clamp.ts";
 
+/** Default zoom speed per pixel of wheel scrolling */
+const DEFAULT_WHEEL_SENSITIVITY = 0.002;
+
+/** Default zoom speed per pixel of trackpad pinch (ctrlKey wheel events) */
+const DEFAULT_PINCH_SENSITIVITY = 0.01;
+
+/** Pixels per line for wheel events in `DOM_DELTA_LINE` mode */
+const WHEEL_LINE_HEIGHT = 16;
+
+/** Pixels per page for wheel events in `DOM_DELTA_PAGE` mode */
+const WHEEL_PAGE_HEIGHT = 800;
+
+/** A single wheel event can at most double or halve the zoom */
+const MAX_WHEEL_ZOOM_FACTOR = 2;
+
 export interface ZoomCallbacks {
 	onChange?: (zoom: number, previousZoom: number) => void;
 }
 
+/**
+ * Access to the image position, used to keep the point under the cursor or pinch midpoint
+ * fixed while zooming. Positions are offsets of the image center from the element center.
+ */
+export interface ZoomAnchor {
+	getPosition: () => { x: number; y: number };
+	setPosition: (x: number, y: number) => void;
+}
+
+/**
+ * Compute the image position that keeps a given point fixed while the zoom changes by `ratio`.
+ *
+ * @param position - Offset of the image center from the element center before zooming
+ * @param origin - The point to keep fixed, as an offset from the element center
+ * @param ratio - New zoom divided by the previous zoom
+ * @returns The offset of the image center from the element center after zooming
+ */
+export function calculateAnchoredPosition(
+	position: { x: number; y: number },
+	origin: { x: number; y: number },
+	ratio: number,
+): { x: number; y: number } {
+	return {
+		x: origin.x + (position.x - origin.x) * ratio,
+		y: origin.y + (position.y - origin.y) * ratio,
+	};
+}
+
+/**
+ * Compute the factor a wheel event multiplies the zoom by.
+ *
+ * The delta is converted to pixels according to `deltaMode`, so line and page based wheels
+ * zoom as fast as pixel based ones. Browsers report trackpad pinch gestures as wheel events
+ * with `ctrlKey` set, which use the pinch sensitivity. Ctrl is also set when scrolling a mouse
+ * wheel with Ctrl held, so only fractional pixel deltas, which mouse wheels do not produce,
+ * are treated as pinches. Equal deltas in opposite directions cancel out, so zooming feels
+ * the same at any zoom level.
+ *
+ * @param event - The wheel event's `deltaY`, `deltaMode` and `ctrlKey`
+ * @param config - Optional `wheelSensitivity` and `pinchSensitivity`
+ * @returns The zoom factor, between 1/2 and 2; above 1 zooms in
+ */
+export function getWheelZoomFactor(
+	event: Pick<WheelEvent, "deltaY" | "deltaMode" | "ctrlKey">,
+	config: Pick<ZoomConfig, "wheelSensitivity" | "pinchSensitivity">,
+): number {
+	const isPinch =
+		event.ctrlKey && event.deltaMode === 0 && !Number.isInteger(event.deltaY);
+
+	let delta = event.deltaY;
+	if (event.deltaMode === 1) {
+		delta *= WHEEL_LINE_HEIGHT;
+	} else if (event.deltaMode === 2) {
+		delta *= WHEEL_PAGE_HEIGHT;
+	}
+
+	const sensitivity = isPinch
+		? (config.pinchSensitivity ?? DEFAULT_PINCH_SENSITIVITY)
+		: (config.wheelSensitivity ?? DEFAULT_WHEEL_SENSITIVITY);
+
+	return clamp(
+		Math.exp(-delta * sensitivity),
+		1 / MAX_WHEEL_ZOOM_FACTOR,
+		MAX_WHEEL_ZOOM_FACTOR,
+	);
+}
+
+/**
+ * Convert client coordinates into an offset from the center of an element.
+ */
+function getOffsetFromCenter(
+	element: HTMLElement,
+	clientX: number,
+	clientY: number,
+): { x: number; y: number } {
+	const rect = element.getBoundingClientRect();
+	return {
+		x: clientX - rect.left - rect.width / 2,
+		y: clientY - rect.top - rect.height / 2,
+	};
+}
+
 /**
  * Create and attach a wheel-based zoom handler to an element.
  *
- * When the user scrolls the wheel over the element this handler adjusts the zoom
- * by steps of 0.1, clamped to the supplied `config` bounds, and invokes the
- * optional `onChange` callback when the zoom changes.
+ * When the user scrolls the wheel over the element this handler multiplies the zoom by a
+ * factor that grows with the scroll distance (see {@link getWheelZoomFactor}), clamped to
+ * the supplied `config` bounds, and invokes the optional `onChange` callback when the zoom
+ * changes. Trackpad pinch gestures arrive as wheel events with `ctrlKey` set and zoom with
+ * `config.pinchSensitivity`. With an `anchor`, the image is also moved so the point under
+ * the cursor stays in place.
  *
  * @param element - The HTMLElement to attach the wheel listener to
  * @param getZoom - Function that returns the current zoom level
  * @param setZoom - Function that updates the zoom level
- * @param config - Zoom bounds; `min` and `max` define the allowed zoom range
+ * @param config - Zoom bounds (`min` and `max`) and optional wheel and pinch sensitivity
  * @param callbacks - Optional callbacks; `onChange(newZoom, previousZoom)` is called when zoom changes
  * @param requireCtrl - If true, the handler only responds when the Ctrl key is pressed (default: `false`)
+ * @param anchor - Optional access to the image position; when given, zoom is anchored at the cursor
  * @returns A cleanup function that removes the attached wheel listener
  */
 export function createWheelZoomHandler(
@@ -27,6 +128,7 @@ export function createWheelZoomHandler(
 	config: ZoomConfig,
 	callbacks?: ZoomCallbacks,
 	requireCtrl = false,
+	anchor?: ZoomAnchor,
 ): () => void {
 	const handleWheel = (e: WheelEvent) => {
 		// Check for ctrl requirement
@@ -38,11 +140,26 @@ export function createWheelZoomHandler(
 		e.preventDefault();
 
 		const previousZoom = getZoom();
-		const delta = e.deltaY > 0 ? -0.1 : 0.1;
-		const newZoom = clamp(previousZoom + delta, config.min, config.max);
+		const newZoom = clamp(
+			previousZoom * getWheelZoomFactor(e, config),
+			config.min,
+			config.max,
+		);
 
 		if (newZoom !== previousZoom) {
+			const position = anchor && { ...anchor.getPosition() };
 			setZoom(newZoom);
+
+			// Read the zoom back, the setter may clamp it further
+			if (anchor && position) {
+				const { x, y } = calculateAnchoredPosition(
+					position,
+					getOffsetFromCenter(element, e.clientX, e.clientY),
+					getZoom() / previousZoom,
+				);
+				anchor.setPosition(x, y);
+			}
+
 			callbacks?.onChange?.(newZoom, previousZoom);
 		}
 	};
@@ -59,12 +176,15 @@ export function createWheelZoomHandler(
  *
  * Handles two-finger pinch gestures to update zoom between the bounds specified by `config`.
  * When the effective zoom changes, `setZoom` is called and `callbacks.onChange` is invoked with the new and previous zoom values.
+ * With an `anchor`, the image also follows the midpoint of the two touches, so the point under
+ * it stays fixed while zooming and moving both fingers pans the image.
  *
  * @param element - The target HTMLElement to attach touch listeners to.
  * @param getZoom - Function that returns the current zoom level.
  * @param setZoom - Function called with the new zoom level when it changes.
  * @param config - Zoom bounds (`min` and `max`) used to clamp the computed zoom.
  * @param callbacks - Optional callbacks; `onChange(newZoom, previousZoom)` is called when zoom changes.
+ * @param anchor - Optional access to the image position; when given, zoom is anchored at the touch midpoint.
  * @returns A function that removes the attached touch listeners from `element`.
  */
 export function createPinchZoomHandler(
@@ -73,9 +193,12 @@ export function createPinchZoomHandler(
 	setZoom: (zoom: number) => void,
 	config: ZoomConfig,
 	callbacks?: ZoomCallbacks,
+	anchor?: ZoomAnchor,
 ): () => void {
 	let initialDistance = 0;
 	let initialZoom = 1;
+	let initialCenter = { x: 0, y: 0 };
+	let initialPosition = { x: 0, y: 0 };
 
 	const getDistance = (touches: TouchList): number => {
 		if (touches.length < 2) return 0;
@@ -87,11 +210,26 @@ export function createPinchZoomHandler(
 		return Math.sqrt(dx * dx + dy * dy);
 	};
 
+	const getCenter = (touches: TouchList): { x: number; y: number } => {
+		const touch1 = touches.item(0);
+		const touch2 = touches.item(1);
+		if (!touch1 || !touch2) return { x: 0, y: 0 };
+		return getOffsetFromCenter(
+			element,
+			(touch1.clientX + touch2.clientX) / 2,
+			(touch1.clientY + touch2.clientY) / 2,
+		);
+	};
+
 	const handleTouchStart = (e: TouchEvent) => {
 		if (e.touches.length === 2) {
 			e.preventDefault();
 			initialDistance = getDistance(e.touches);
 			initialZoom = getZoom();
+			if (anchor) {
+				initialCenter = getCenter(e.touches);
+				initialPosition = { ...anchor.getPosition() };
+			}
 		}
 	};
 
@@ -106,6 +244,23 @@ export function createPinchZoomHandler(
 
 			if (newZoom !== previousZoom) {
 				setZoom(newZoom);
+			}
+
+			// Keep the image point under the initial midpoint under the current midpoint
+			if (anchor) {
+				const center = getCenter(e.touches);
+				const anchored = calculateAnchoredPosition(
+					initialPosition,
+					initialCenter,
+					getZoom() / initialZoom,
+				);
+				anchor.setPosition(
+					anchored.x + center.x - initialCenter.x,
+					anchored.y + center.y - initialCenter.y,
+				);
+			}
+
+			if (newZoom !== previousZoom) {
 				callbacks?.onChange?.(newZoom, previousZoom);
 			}
 		}
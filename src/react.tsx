@@ -0,0 +1,241 @@
+/**
+ * @bayinformatics/croppie/react
+ *
+ * A `<Croppie>` component and a `useCroppie()` hook for React 19.
+ *
+ * @packageDocumentation
+ */
+
+import {
+	type CSSProperties,
+	type Ref,
+	type RefObject,
+	useEffect,
+	useImperativeHandle,
+	useMemo,
+	useRef,
+	useState,
+} from "react";
+import { Croppie as CroppieInstance } from "./Croppie.ts";
+import type {
+	CroppieData,
+	CroppieEvents,
+	CroppieOptions,
+	ResultOptions,
+	ResultValue,
+} from "./types.ts";
+
+/**
+ * Props of the `<Croppie>` component
+ */
+export interface CroppieProps {
+	/** Cropper options, compared and passed on as JSON; a cropper with the new options replaces the old one when they change */
+	options: CroppieOptions;
+	/** Image URL, or a File or Blob, bound whenever it changes */
+	src?: string | Blob;
+	/** Crop state to show, applied with `setData()` whenever it changes */
+	value?: CroppieData;
+	/** Called with the crop when it changes, and once an image is bound */
+	onChange?: (data: CroppieData) => void;
+	/** Called when the zoom changes through the slider, wheel, pinch or keyboard */
+	onZoom?: (event: CroppieEvents["zoom"]) => void;
+	/** Called when the image in `src` fails to load */
+	onError?: (error: unknown) => void;
+	/** Receives the underlying cropper, e.g. `useCroppie().ref` */
+	ref?: Ref<CroppieInstance | null>;
+	/** Class of the element the cropper is rendered in */
+	className?: string;
+	/** Style of the element the cropper is rendered in */
+	style?: CSSProperties;
+}
+
+/**
+ * Controls for a `<Croppie>` component, returned by `useCroppie()`
+ */
+export interface UseCroppieResult {
+	/** Pass to the component's `ref` prop */
+	ref: RefObject<CroppieInstance | null>;
+	/** Gets the current cropped result, see `Croppie.result()` */
+	result(options: ResultOptions): Promise<ResultValue>;
+	/** Rotates the image by 90 degree increments, see `Croppie.rotate()` */
+	rotate(degrees: 90 | 180 | 270 | -90): void;
+	/** Resets the crop, see `Croppie.reset()` */
+	reset(): void;
+}
+
+/**
+ * Renders a cropper and keeps it in sync with its props.
+ *
+ * The cropper is created on mount and destroyed on unmount. When `options` change, the crop
+ * is carried over to a new cropper and the image bound again.
+ *
+ * @example
+ * ```tsx
+ * const croppie = useCroppie()
+ * const [crop, setCrop] = useState<CroppieData>()
+ *
+ * <Croppie ref={croppie.ref} src={url} options={{ viewport: { width: 200, height: 200, type: 'circle' } }} value={crop} onChange={setCrop} />
+ * <button onClick={async () => upload(await croppie.result({ type: 'blob' }))}>Save</button>
+ * ```
+ */
+export function Croppie({
+	options,
+	src,
+	value,
+	onChange,
+	onZoom,
+	onError,
+	ref,
+	className,
+	style,
+}: CroppieProps) {
+	const containerRef = useRef<HTMLDivElement>(null);
+	const [instance, setInstance] = useState<CroppieInstance | null>(null);
+
+	// Read by the cropper's event handlers and bind callbacks, which outlive a render
+	const latest = useRef({ src, value, onChange, onZoom, onError });
+	latest.current = { src, value, onChange, onZoom, onError };
+
+	// The live cropper, the source bound to it, and the crop carried over to the next one
+	const current = useRef<CroppieInstance | null>(null);
+	const boundSrc = useRef<string | Blob | undefined>(undefined);
+	const lastData = useRef<CroppieData | undefined>(undefined);
+
+	// Inline options objects are new on every render, so the cropper is created from their contents
+	const optionsKey = JSON.stringify(options);
+
+	useEffect(() => {
+		const container = containerRef.current;
+		if (!container) return;
+
+		const croppie = new CroppieInstance(
+			container,
+			JSON.parse(optionsKey) as CroppieOptions,
+		);
+		croppie.on("update", (data) => {
+			lastData.current = data;
+			latest.current.onChange?.(data);
+		});
+		croppie.on("zoom", (event) => latest.current.onZoom?.(event));
+
+		current.current = croppie;
+		setInstance(croppie);
+		boundSrc.current = latest.current.src;
+		bindSource(croppie, latest.current.src, lastData.current);
+
+		return () => {
+			current.current = null;
+			croppie.destroy();
+			setInstance(null);
+		};
+	}, [optionsKey]);
+
+	useEffect(() => {
+		if (!instance || src === boundSrc.current) return;
+
+		// The crop of the previous image, including the value it was reported as, does not carry over
+		boundSrc.current = src;
+		lastData.current = undefined;
+		bindSource(instance, src, undefined, latest.current.value);
+	}, [instance, src]);
+
+	useEffect(() => {
+		if (!instance || !value) return;
+
+		// Skip the value this cropper just reported through onChange
+		if (JSON.stringify(value) === JSON.stringify(instance.get())) return;
+		instance.setData(value);
+	}, [instance, value]);
+
+	useImperativeHandle<CroppieInstance | null, CroppieInstance | null>(
+		ref,
+		() => instance,
+		[instance],
+	);
+
+	/**
+	 * Binds an image, then applies `value` or the crop of a previous cropper, or reports the initial crop.
+	 * A `value` that is still `staleValue` once the image is bound is not applied.
+	 */
+	function bindSource(
+		croppie: CroppieInstance,
+		source: string | Blob | undefined,
+		previous: CroppieData | undefined,
+		staleValue?: CroppieData,
+	): void {
+		if (source === undefined) return;
+
+		const bound =
+			typeof source === "string"
+				? croppie.bind({ url: source })
+				: croppie.bindFile(source);
+		bound.then(
+			() => {
+				// A newer image or cropper has replaced this one
+				if (croppie !== current.current || boundSrc.current !== source) return;
+
+				const { value } = latest.current;
+				const data = (value !== staleValue ? value : undefined) ?? previous;
+				if (data) {
+					croppie.setData(data);
+				} else {
+					const initial = croppie.get();
+					lastData.current = initial;
+					latest.current.onChange?.(initial);
+				}
+			},
+			(error: unknown) => {
+				if (croppie !== current.current || boundSrc.current !== source) return;
+				if (latest.current.onError) {
+					latest.current.onError(error);
+				} else {
+					console.error(
+						"[@bayinformatics/croppie] Failed to bind image",
+						error,
+					);
+				}
+			},
+		);
+	}
+
+	return <div ref={containerRef} className={className} style={style} />;
+}
+
+/**
+ * Creates controls for a `<Croppie>` component: pass `ref` to the component's `ref` prop.
+ *
+ * The returned object is stable across renders.
+ *
+ * @example
+ * ```tsx
+ * const croppie = useCroppie()
+ * <Croppie ref={croppie.ref} src={url} options={options} />
+ * <button onClick={() => croppie.rotate(90)}>Rotate</button>
+ * ```
+ */
+export function useCroppie(): UseCroppieResult {
+	const ref = useRef<CroppieInstance | null>(null);
+
+	return useMemo(
+		() => ({
+			ref,
+			result: async (options: ResultOptions) => {
+				if (!ref.current) {
+					throw new Error("No cropper mounted");
+				}
+				return ref.current.result(options);
+			},
+			rotate: (degrees: 90 | 180 | 270 | -90) => ref.current?.rotate(degrees),
+			reset: () => ref.current?.reset(),
+		}),
+		[],
+	);
+}
+
+export type {
+	CroppieData,
+	CroppieEvents,
+	CroppieOptions,
+	ResultOptions,
+	ResultValue,
+} from "./types.ts";
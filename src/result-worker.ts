@@ -0,0 +1,12 @@
+/**
+ * Entry point of the workers that draw `result({ worker: true })`, built as `result-worker.js`
+ * next to the library.
+ *
+ * @packageDocumentation
+ */
+
+import { type ResultWorkerScope, startResultWorker } from "./canvas/index.ts";
+
+declare const self: ResultWorkerScope;
+
+startResultWorker(self);
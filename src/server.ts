@@ -0,0 +1,128 @@
+/**
+ * @bayinformatics/croppie/server
+ *
+ * Applies crop data from the browser to the original image bytes in Node, Bun or Deno,
+ * with the same geometry as `Croppie.result()`.
+ *
+ * @packageDocumentation
+ */
+
+import { CropEngine } from "./CropEngine.ts";
+import {
+	type Canvas2DLike,
+	type CanvasFactory,
+	type CropSource,
+	drawCroppedImage,
+} from "./canvas/index.ts";
+import type { CroppieData, ServerCropOptions } from "./types.ts";
+import {
+	getExifTransform,
+	getOrientedDimensions,
+	readExifOrientation,
+} from "./utils/index.ts";
+
+export { CropEngine } from "./CropEngine.ts";
+export type {
+	Canvas2DLike,
+	CanvasFactory,
+	Context2DLike,
+	CropSource,
+	PathFactory,
+} from "./canvas/index.ts";
+export type {
+	CropEngineOptions,
+	CroppieData,
+	CropPoints,
+	FlipState,
+	OutputFormat,
+	ResampleMethod,
+	ServerCanvas,
+	ServerCropOptions,
+	Viewport,
+} from "./types.ts";
+
+/**
+ * Crops and encodes an image with crop data returned by `Croppie.get()`.
+ *
+ * The image is fitted to the viewport like `bind()` and the data applied like `setData()`, so the
+ * viewport must match the one the data was recorded with. The output is drawn the same way as by
+ * `result()`; pixels only match exactly if the canvas resamples like the browser.
+ *
+ * @param bytes - The original image file
+ * @param data - Crop data from the browser
+ * @param options - Viewport, output options and the canvas to draw with
+ * @returns The encoded image
+ *
+ * @example
+ * ```ts
+ * import { createCanvas, loadImage } from '@napi-rs/canvas'
+ *
+ * const png = await cropImage(bytes, data, {
+ *   viewport: { width: 200, height: 200, type: 'circle' },
+ *   size: { width: 800, height: 800 },
+ *   canvas: {
+ *     decode: (bytes) => loadImage(bytes),
+ *     createCanvas: (width, height) => createCanvas(width, height),
+ *     encode: (canvas) => canvas.encode('png'),
+ *   },
+ * })
+ * ```
+ */
+export async function cropImage<I extends CropSource, C extends Canvas2DLike>(
+	bytes: Uint8Array | ArrayBuffer,
+	data: CroppieData,
+	options: ServerCropOptions<I, C>,
+): Promise<Uint8Array> {
+	const input = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+	const { canvas: backend } = options;
+	const createCanvas: CanvasFactory<C> = (width, height) =>
+		backend.createCanvas(width, height);
+
+	let image: I | C = await backend.decode(input);
+	if (options.exifOrientation !== false) {
+		// Browsers display images upright, so the data was recorded on the rotated image
+		const orientation = readExifOrientation(input.slice().buffer);
+		if (orientation && orientation !== 1) {
+			image = drawUpright(image, orientation, createCanvas);
+		}
+	}
+
+	const engine = new CropEngine(options);
+	engine.setImage(image.width, image.height);
+	engine.setData(data);
+
+	const canvas = engine.draw(
+		image,
+		options,
+		createCanvas,
+		backend.createPath?.bind(backend),
+	);
+	return backend.encode(
+		canvas,
+		options.format ?? "png",
+		options.quality ?? 0.92,
+	);
+}
+
+/**
+ * Draws an image rotated and flipped as its EXIF orientation requires
+ */
+function drawUpright<C extends Canvas2DLike>(
+	image: CropSource,
+	orientation: number,
+	createCanvas: CanvasFactory<C>,
+): C {
+	const { rotation, flip } = getExifTransform(orientation);
+	const { width, height } = getOrientedDimensions(
+		image.width,
+		image.height,
+		rotation,
+	);
+	return drawCroppedImage(
+		image,
+		{ topLeftX: 0, topLeftY: 0, bottomRightX: width, bottomRightY: height },
+		width,
+		height,
+		{ rotation, flip, createCanvas },
+	);
+}
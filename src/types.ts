@@ -1,17 +1,52 @@
 /**
  * Viewport shape type - determines the cropping mask shape
+ *
+ * - `circle` / `ellipse`: the ellipse inscribed in the viewport rectangle
+ * - `square`: the full rectangle
+ * - `rounded`: the rectangle with rounded corners (see `Viewport.radius`)
  */
-export type ViewportType = "circle" | "square";
+export type ViewportType = "circle" | "ellipse" | "square" | "rounded";
 
 /**
  * Output format for the cropped image
  */
-export type OutputFormat = "png" | "jpeg" | "webp";
+export type OutputFormat = "png" | "jpeg" | "webp" | "avif";
 
 /**
  * Output type - what format to return the result in
+ *
+ * - `blob` / `file`: the encoded image, as a `File` with a generated name for `file`
+ * - `base64`: the encoded image as a data URL
+ * - `objecturl`: a `blob:` URL of the encoded image, to be released with `Croppie.revokeObjectUrl()`
+ * - `canvas` / `imagebitmap`: the unencoded pixels
  */
-export type OutputType = "blob" | "base64" | "canvas";
+export type OutputType =
+	| "blob"
+	| "base64"
+	| "canvas"
+	| "file"
+	| "imagebitmap"
+	| "objecturl";
+
+/**
+ * Value returned by result() for the output types: `File` for `file`, a string for
+ * `base64` and `objecturl`, and the `Blob`, canvas or `ImageBitmap` otherwise
+ */
+export type ResultValue =
+	| Blob
+	| File
+	| string
+	| HTMLCanvasElement
+	| ImageBitmap;
+
+/**
+ * How large crops are reduced to the output size
+ *
+ * - `browser`: a single `drawImage`, fast but aliased on large reductions
+ * - `stepdown`: repeated halving with `drawImage`
+ * - `lanczos`: a Lanczos filter over the pixel data, sharpest and slowest
+ */
+export type ResampleMethod = "browser" | "stepdown" | "lanczos";
 
 /**
  * Viewport configuration - defines the visible cropping area
@@ -23,6 +58,15 @@ export interface Viewport {
 	height: number;
 	/** Shape of the viewport mask */
 	type: ViewportType;
+	/** Corner radius in pixels for "rounded" viewports (default: 16, at most half the shorter side) */
+	radius?: number;
+	/**
+	 * Custom mask shape, as SVG path data or a list of polygon corners, in `viewBox` coordinates.
+	 * Takes precedence over `type`.
+	 */
+	path?: string | Array<[number, number]>;
+	/** Coordinate system of `path`, stretched to fill the viewport (default: the initial viewport width and height) */
+	viewBox?: { width: number; height: number };
 }
 
 /**
@@ -51,6 +95,98 @@ export interface ZoomConfig {
 	 * @default true
 	 */
 	enforceMinimumCoverage?: boolean;
+	/**
+	 * Wheel zoom speed per pixel scrolled: each event multiplies the zoom by
+	 * `exp(-deltaY * wheelSensitivity)`.
+	 * @default 0.002
+	 */
+	wheelSensitivity?: number;
+	/**
+	 * Trackpad pinch zoom speed per pixel, used for wheel events with `ctrlKey` set (browsers
+	 * report trackpad pinch gestures this way) with fractional pixel deltas, so Ctrl-scrolling a
+	 * mouse wheel keeps the wheel speed.
+	 * @default 0.01
+	 */
+	pinchSensitivity?: number;
+}
+
+/**
+ * Resize handle position on the viewport
+ */
+export type ResizeDirection = "n" | "ne" | "e" | "se" | "s" | "sw" | "w" | "nw";
+
+/**
+ * Viewport resize configuration
+ */
+export interface ResizeConfig {
+	/** Lock the viewport to this width / height ratio while resizing */
+	aspectRatio?: number;
+	/** Minimum viewport width in pixels (default: 50) */
+	minWidth?: number;
+	/** Minimum viewport height in pixels (default: 50) */
+	minHeight?: number;
+	/** Maximum viewport width in pixels (default: boundary width) */
+	maxWidth?: number;
+	/** Maximum viewport height in pixels (default: boundary height) */
+	maxHeight?: number;
+}
+
+/**
+ * Localizable accessibility strings. `{name}` placeholders are replaced with current values.
+ */
+export interface CroppieLabels {
+	/** Accessible name of the cropping area (default: "Image cropper") */
+	boundary: string;
+	/** Keyboard instructions read after the cropping area's name */
+	instructions: string;
+	/** Alternative text of the image (default: "Cropper image") */
+	image: string;
+	/** Accessible name of the zoom slider (default: "Zoom") */
+	zoomSlider: string;
+	/** Accessible name of the straighten slider (default: "Straighten") */
+	straightenSlider: string;
+	/** Spoken zoom slider value; `{zoom}` is the zoom in percent (default: "{zoom}%") */
+	zoomValue: string;
+	/** Spoken straighten slider value; `{angle}` is in degrees (default: "{angle} degrees") */
+	angleValue: string;
+	/** Announced after the zoom changes; `{zoom}` is the zoom in percent */
+	zoomAnnouncement: string;
+	/** Announced after the crop moves; `{x}` and `{y}` are the crop center in percent of the image */
+	positionAnnouncement: string;
+}
+
+/**
+ * Keyboard navigation configuration
+ */
+export interface KeyboardConfig {
+	/** Pixels the image moves per arrow key press (default: 10) */
+	panStep: number;
+	/** Pixels the image moves per arrow key press with Shift held (default: 50) */
+	panStepLarge: number;
+	/** Zoom change per +/- key press, as a fraction of the current zoom (default: 0.1) */
+	zoomStep: number;
+}
+
+/**
+ * Free rotation (straighten) configuration
+ */
+export interface StraightenConfig {
+	/** Minimum angle in degrees (default: -45) */
+	min: number;
+	/** Maximum angle in degrees (default: 45) */
+	max: number;
+}
+
+/**
+ * CropEngine configuration - the geometry part of CroppieOptions
+ */
+export interface CropEngineOptions {
+	/** Viewport (cropping area) size and shape */
+	viewport: Viewport;
+	/** Zoom limits */
+	zoom?: Partial<ZoomConfig>;
+	/** Straighten angle limits */
+	straighten?: Partial<StraightenConfig>;
 }
 
 /**
@@ -65,16 +201,22 @@ export interface CroppieOptions {
 	zoom?: Partial<ZoomConfig>;
 	/** Show zoom slider control */
 	showZoomer?: boolean;
+	/** Show a straighten slider for free rotation; an object also sets the angle limits */
+	straighten?: boolean | Partial<StraightenConfig>;
 	/** Enable mouse wheel zoom */
 	mouseWheelZoom?: boolean | "ctrl";
-	/** Enable EXIF orientation correction */
+	/** Pan, zoom and rotate with the keyboard when the boundary has focus; an object sets the step sizes (default: true) */
+	keyboard?: boolean | Partial<KeyboardConfig>;
+	/** Localized accessibility labels and announcements */
+	labels?: Partial<CroppieLabels>;
+	/** Read the EXIF orientation of JPEG data URLs and files on bind and display them upright */
 	enableExif?: boolean;
 	/**
 	 * @deprecated Use rotate() method instead. This option is a no-op for v2.6 migration compatibility.
 	 */
 	enableOrientation?: boolean;
-	/** Enable resize handles on viewport */
-	enableResize?: boolean;
+	/** Enable resize handles on viewport, optionally with size limits and a locked aspect ratio */
+	enableResize?: boolean | ResizeConfig;
 	/** Custom CSS class for the container */
 	customClass?: string;
 }
@@ -109,6 +251,26 @@ export interface CroppieData {
 	zoom: number;
 	/** Current rotation in degrees */
 	orientation?: number;
+	/** Current free rotation (straighten angle) in degrees, on top of `orientation` */
+	angle?: number;
+	/** Current mirroring, applied to the image before it is rotated */
+	flip?: FlipState;
+}
+
+/**
+ * Crop state to apply with setData() - omitted fields keep their current value
+ */
+export interface SetDataOptions {
+	/** Crop points in the (rotated) image frame (array [x1,y1,x2,y2] or object) */
+	points?: CropPoints | PointsArray;
+	/** Zoom level - takes precedence over the zoom derived from points */
+	zoom?: number;
+	/** Rotation in degrees (multiples of 90) */
+	orientation?: number;
+	/** Free rotation (straighten angle) in degrees */
+	angle?: number;
+	/** Mirroring applied to the image before it is rotated */
+	flip?: FlipState;
 }
 
 /**
@@ -121,10 +283,44 @@ export interface BindOptions {
 	points?: CropPoints | PointsArray;
 	/** Initial zoom level */
 	zoom?: number;
-	/** EXIF orientation (1-8) */
+	/** EXIF orientation (1-8) to apply - overrides the orientation read when `enableExif` is set */
 	orientation?: number;
 }
 
+/**
+ * EXIF fields that can be copied from the source image into a result.
+ * `GPS` copies the whole GPS directory.
+ */
+export type ExifField =
+	| "ImageDescription"
+	| "Make"
+	| "Model"
+	| "Software"
+	| "DateTime"
+	| "Artist"
+	| "Copyright"
+	| "ExposureTime"
+	| "FNumber"
+	| "ISOSpeedRatings"
+	| "DateTimeOriginal"
+	| "DateTimeDigitized"
+	| "FocalLength"
+	| "LensMake"
+	| "LensModel"
+	| "GPS";
+
+/**
+ * Metadata written into JPEG and PNG results
+ */
+export interface ResultMetadata {
+	/** Resolution in dots per inch, written as JFIF density (JPEG) or a pHYs chunk (PNG) */
+	dpi?: number;
+	/** ICC profile to embed: `true` copies the profile of the source image */
+	icc?: boolean | ArrayBuffer | Uint8Array;
+	/** EXIF fields to copy from the source image. Orientation is never copied, since results are drawn upright. */
+	exif?: ExifField[];
+}
+
 /**
  * Result options - for exporting the cropped image
  */
@@ -133,14 +329,120 @@ export interface ResultOptions {
 	type: OutputType;
 	/** Output dimensions */
 	size?: { width: number; height: number } | "viewport" | "original";
-	/** Output format (for base64/blob) */
-	format?: OutputFormat;
-	/** JPEG/WebP quality (0-1) */
+	/** Output format (for encoded types), or formats in order of preference to use the first one the browser can encode */
+	format?: OutputFormat | OutputFormat[];
+	/** JPEG/WebP/AVIF quality (0-1) */
 	quality?: number;
-	/** Include circular mask in output (for circle viewport) */
+	/** Clip the output to an ellipse (`true`) or not at all (`false`) instead of the viewport shape */
 	circle?: boolean;
 	/** Background color for transparent images */
 	backgroundColor?: string;
+	/** How to reduce crops larger than the output (default: 'browser'; results() steps down between its sizes unless set) */
+	resample?: ResampleMethod;
+	/**
+	 * Largest encoded size in bytes for results other than canvas and imagebitmap (base64 counts the decoded bytes).
+	 * The quality is lowered as little as needed to fit; PNG only fits with `shrinkToFit`.
+	 */
+	maxBytes?: number;
+	/** Also reduce the output dimensions when `maxBytes` is not reached at the lowest quality (default: false) */
+	shrinkToFit?: boolean;
+	/** Metadata to write into JPEG and PNG results (other formats are returned without it) */
+	metadata?: ResultMetadata;
+	/** File name for `file` results (default: `crop-{timestamp}` with the extension of the encoded format) */
+	fileName?: string;
+	/** Reject instead of warning when the browser encodes a different format than requested (default: false) */
+	strictFormat?: boolean;
+	/**
+	 * Draw and encode results of result() other than canvas and imagebitmap on an `OffscreenCanvas` in a worker,
+	 * falling back to the main thread where that is not supported (default: false)
+	 */
+	worker?: boolean;
+	/** Called with the dimensions, format, quality and byte size of this result once it is encoded */
+	onEncoded?: (info: ResultInfo) => void;
+}
+
+/**
+ * Output size for results(): a width in pixels (the height follows the viewport's aspect ratio) or explicit dimensions
+ */
+export type ResultSize = number | { width: number; height: number };
+
+/**
+ * Multi-size result options - for exporting the same crop at several sizes
+ */
+export interface MultiResultOptions
+	extends Omit<ResultOptions, "size" | "worker" | "onEncoded"> {
+	/** Output sizes, keyed in the result by the width (`"256"`) or by `"{width}x{height}"` for explicit dimensions */
+	sizes: ResultSize[];
+	/** Called for every encoded size with how it was encoded and its key in the returned record */
+	onEncoded?: (info: ResultInfo, key: string) => void;
+}
+
+/**
+ * How a result was encoded, passed to `onEncoded` and the "result" event for every type but canvas and imagebitmap
+ */
+export interface ResultInfo {
+	/** Output width in pixels (smaller than requested if `shrinkToFit` reduced it) */
+	width: number;
+	/** Output height in pixels */
+	height: number;
+	/** Format the browser actually encoded */
+	format: OutputFormat;
+	/** Quality the image was encoded at */
+	quality: number;
+	/** Encoded size in bytes */
+	bytes: number;
+}
+
+/**
+ * Decodes, draws and encodes images for cropping outside the browser, e.g. with a canvas library
+ */
+export interface ServerCanvas<
+	I extends { width: number; height: number } = {
+		width: number;
+		height: number;
+	},
+	C = unknown,
+> {
+	/** Decode image bytes to an image `drawImage()` accepts, without applying the EXIF orientation */
+	decode(bytes: Uint8Array): I | Promise<I>;
+	/** Create a blank canvas whose 2D context behaves like the DOM's */
+	createCanvas(width: number, height: number): C;
+	/**
+	 * Create a clip path from SVG path data, e.g. `(data) => new Path2D(data)` with the library's
+	 * `Path2D`. Required for viewports with a `path`, as Node and Bun have no global `Path2D`.
+	 */
+	createPath?(data: string): object;
+	/** Encode a canvas; `quality` is between 0 and 1 */
+	encode(
+		canvas: C,
+		format: OutputFormat,
+		quality: number,
+	): Uint8Array | Promise<Uint8Array>;
+}
+
+/**
+ * Options for cropping image bytes with crop data from the browser
+ */
+export interface ServerCropOptions<
+	I extends { width: number; height: number } = {
+		width: number;
+		height: number;
+	},
+	C = unknown,
+> extends CropEngineOptions,
+		Pick<
+			ResultOptions,
+			"size" | "quality" | "circle" | "backgroundColor" | "resample"
+		> {
+	/** Decoder, canvas and encoder to use */
+	canvas: ServerCanvas<I, C>;
+	/** Output format (default: png) */
+	format?: OutputFormat;
+	/**
+	 * Display the image upright according to its EXIF orientation before applying the crop data,
+	 * as browsers do (default: true). Disable it for crop data from a browser that shows images as stored.
+	 */
+	exifOrientation?: boolean;
 }
 
 /**
@@ -151,6 +453,8 @@ export interface CroppieEvents {
 	update: CroppieData;
 	/** Fired when zoom level changes */
 	zoom: { zoom: number; previousZoom: number };
+	/** Fired when result() or results() has encoded a blob or base64 output */
+	result: ResultInfo;
 }
 
 /**
@@ -160,6 +464,21 @@ export type CroppieEventHandler<K extends keyof CroppieEvents> = (
 	data: CroppieEvents[K],
 ) => void;
 
+/**
+ * Axis to mirror the displayed image across with flip()
+ */
+export type FlipDirection = "horizontal" | "vertical";
+
+/**
+ * Mirroring applied to the image before it is rotated
+ */
+export interface FlipState {
+	/** Mirror left to right */
+	horizontal: boolean;
+	/** Mirror top to bottom */
+	vertical: boolean;
+}
+
 /**
  * Internal state for tracking transforms
  */
@@ -170,4 +489,6 @@ export interface TransformState {
 	y: number;
 	/** Current scale/zoom */
 	scale: number;
+	/** Free rotation in degrees, applied on top of the 90° orientation */
+	angle: number;
 }
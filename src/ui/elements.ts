@@ -1,5 +1,33 @@
-import type { Boundary, Viewport, ViewportType } from "../types.ts";
+import type {
+	Boundary,
+	ResizeDirection,
+	Viewport,
+	ViewportType,
+} from "../types.ts";
 import { createElement } from "../utils/dom.ts";
+import {
+	type ViewportPath,
+	getCornerRadius,
+	getViewportPath,
+	isEllipticalViewport,
+} from "../utils/viewport.ts";
+
+const SVG_NAMESPACE = "http://www.w3.org/2000/svg";
+
+/** Styles that hide an element visually while keeping it available to screen readers */
+const VISUALLY_HIDDEN: Partial<CSSStyleDeclaration> = {
+	position: "absolute",
+	width: "1px",
+	height: "1px",
+	padding: "0",
+	margin: "-1px",
+	overflow: "hidden",
+	clip: "rect(0, 0, 0, 0)",
+	whiteSpace: "nowrap",
+	border: "0",
+};
+
+let descriptionCount = 0;
 
 /**
  * Create the croppie container element.
@@ -18,11 +46,19 @@ export function createContainer(customClass?: string): HTMLDivElement {
  * Create the outer boundary element that constrains the crop area.
  *
  * @param boundary - Object describing the boundary's width and height in pixels
- * @returns The created div element used as the boundary container
+ * @param label - Optional accessible name for the cropping area
+ * @returns The created div element used as the boundary container, with role `application`
  */
-export function createBoundary(boundary: Boundary): HTMLDivElement {
+export function createBoundary(
+	boundary: Boundary,
+	label?: string,
+): HTMLDivElement {
 	const element = createElement("div", {
 		className: "cr-boundary",
+		attributes: {
+			role: "application",
+			...(label ? { "aria-label": label } : {}),
+		},
 		styles: {
 			width: `${boundary.width}px`,
 			height: `${boundary.height}px`,
@@ -36,12 +72,15 @@ export function createBoundary(boundary: Boundary): HTMLDivElement {
 /**
  * Create a positioned, sized DOM element that represents the crop viewport.
  *
+ * Viewports with a custom `path` get the extra class `cr-vp-path` and draw their border as an SVG outline of the path.
+ *
  * @param viewport - Object describing the viewport's width, height, and type which determine the element's size and shape
  * @returns The configured `HTMLDivElement` to be used as the viewport element (includes class `cr-viewport cr-vp-{type}`)
  */
 export function createViewport(viewport: Viewport): HTMLDivElement {
+	const path = getViewportPath(viewport);
 	const element = createElement("div", {
-		className: `cr-viewport cr-vp-${viewport.type}`,
+		className: `cr-viewport cr-vp-${viewport.type}${path ? " cr-vp-path" : ""}`,
 		styles: {
 			width: `${viewport.width}px`,
 			height: `${viewport.height}px`,
@@ -50,12 +89,52 @@ export function createViewport(viewport: Viewport): HTMLDivElement {
 			left: "50%",
 			transform: "translate(-50%, -50%)",
 			pointerEvents: "none",
-			borderRadius: viewport.type === "circle" ? "50%" : "0",
+			borderRadius: getBorderRadius(viewport),
 		},
 	});
+
+	if (path) {
+		element.appendChild(createPathOutline(path));
+	}
+
 	return element;
 }
 
+/**
+ * Create an SVG that traces a custom viewport path and stretches with the viewport element.
+ *
+ * @param path - The viewport's path and coordinate system
+ * @returns An `svg` element with class `cr-vp-outline`
+ */
+function createPathOutline(path: ViewportPath): SVGSVGElement {
+	const svg = document.createElementNS(SVG_NAMESPACE, "svg");
+	svg.setAttribute("class", "cr-vp-outline");
+	svg.setAttribute("viewBox", `0 0 ${path.width} ${path.height}`);
+	svg.setAttribute("preserveAspectRatio", "none");
+	svg.setAttribute("aria-hidden", "true");
+
+	const outline = document.createElementNS(SVG_NAMESPACE, "path");
+	outline.setAttribute("d", path.data);
+	outline.setAttribute("vector-effect", "non-scaling-stroke");
+	svg.appendChild(outline);
+
+	return svg;
+}
+
+/**
+ * Get the CSS `border-radius` that gives the viewport element the viewport's shape.
+ *
+ * @param viewport - Viewport dimensions, type and corner radius
+ * @returns `50%` for elliptical viewports, the corner radius in pixels for rounded viewports, otherwise `0`
+ */
+function getBorderRadius(viewport: Viewport): string {
+	if (isEllipticalViewport(viewport)) {
+		return "50%";
+	}
+	const radius = getCornerRadius(viewport);
+	return radius > 0 ? `${radius}px` : "0";
+}
+
 /**
  * Creates the overlay that darkens the area outside the viewport.
  *
@@ -79,38 +158,123 @@ export function createOverlay(
 		},
 	});
 
+	element.style.background = "rgba(0, 0, 0, 0.5)";
+	updateOverlay(element, boundary, viewport);
+
+	return element;
+}
+
+/**
+ * Updates the overlay cutout to match the current viewport size.
+ *
+ * @param element - The overlay element created by `createOverlay`
+ * @param boundary - The cropping boundary used to position the cutout
+ * @param viewport - The viewport dimensions and type that define the transparent cutout
+ */
+export function updateOverlay(
+	element: HTMLDivElement,
+	boundary: Boundary,
+	viewport: Viewport,
+): void {
 	// The overlay uses a CSS mask or clip-path to create the cutout
 	const maskImage = createMaskImage(boundary, viewport);
-	element.style.background = "rgba(0, 0, 0, 0.5)";
 	element.style.maskImage = maskImage;
 	element.style.webkitMaskImage = maskImage;
+}
 
-	return element;
+/**
+ * Updates the viewport element to match the given viewport size.
+ *
+ * The border radius is refreshed as well, since a rounded viewport's corner radius is limited by its size.
+ *
+ * @param element - The viewport element created by `createViewport`
+ * @param viewport - The new viewport dimensions
+ */
+export function updateViewportSize(
+	element: HTMLDivElement,
+	viewport: Viewport,
+): void {
+	element.style.width = `${viewport.width}px`;
+	element.style.height = `${viewport.height}px`;
+	element.style.borderRadius = getBorderRadius(viewport);
+}
+
+const RESIZE_DIRECTIONS: ResizeDirection[] = [
+	"n",
+	"ne",
+	"e",
+	"se",
+	"s",
+	"sw",
+	"w",
+	"nw",
+];
+
+/**
+ * Create the resize handles placed on the viewport edges and corners.
+ *
+ * @returns One div per direction with classes `cr-resize-handle cr-resize-{direction}` and a `data-direction` attribute
+ */
+export function createResizeHandles(): HTMLDivElement[] {
+	return RESIZE_DIRECTIONS.map((direction) =>
+		createElement("div", {
+			className: `cr-resize-handle cr-resize-${direction}`,
+			attributes: { "data-direction": direction },
+			styles: { pointerEvents: "auto", touchAction: "none" },
+		}),
+	);
 }
 
 /**
  * Generates a CSS `mask-image` string that creates a transparent cutout for the viewport centered in the boundary.
  *
  * @param boundary - Dimensions of the bounding container used to center the cutout.
- * @param viewport - Viewport dimensions and type ("circle" for circular cutouts, otherwise rectangular).
- * @returns A CSS `mask-image` value: a `radial-gradient` for circular viewports or two overlapping `linear-gradient`s for rectangular viewports that together produce a transparent hole where the viewport is located.
+ * @param viewport - Viewport dimensions, type, corner radius and path.
+ * @returns A CSS `mask-image` value: a `radial-gradient` for elliptical viewports, an SVG image for rounded and path viewports, or two overlapping `linear-gradient`s for rectangular viewports that together produce a transparent hole where the viewport is located.
  */
 function createMaskImage(boundary: Boundary, viewport: Viewport): string {
 	const centerX = boundary.width / 2;
 	const centerY = boundary.height / 2;
 
-	if (viewport.type === "circle") {
-		const radius = viewport.width / 2;
+	const path = getViewportPath(viewport);
+	if (path) {
+		return createSvgMaskImage(boundary, viewport, path);
+	}
+
+	if (isEllipticalViewport(viewport)) {
+		const radiusX = viewport.width / 2;
+		const radiusY = viewport.height / 2;
 		// Create a radial gradient that's transparent in the center
-		return `radial-gradient(circle ${radius}px at ${centerX}px ${centerY}px, transparent ${radius}px, black ${radius}px)`;
+		return `radial-gradient(ellipse ${radiusX}px ${radiusY}px at ${centerX}px ${centerY}px, transparent 100%, black 100%)`;
 	}
 
-	// For square, use a more complex gradient
 	const left = centerX - viewport.width / 2;
 	const right = centerX + viewport.width / 2;
 	const top = centerY - viewport.height / 2;
 	const bottom = centerY + viewport.height / 2;
 
+	const radius = getCornerRadius(viewport);
+	if (radius > 0) {
+		// Gradients cannot round corners, so draw the hole as an SVG path
+		const data = [
+			`M${radius} 0`,
+			`H${viewport.width - radius}`,
+			`A${radius} ${radius} 0 0 1 ${viewport.width} ${radius}`,
+			`V${viewport.height - radius}`,
+			`A${radius} ${radius} 0 0 1 ${viewport.width - radius} ${viewport.height}`,
+			`H${radius}`,
+			`A${radius} ${radius} 0 0 1 0 ${viewport.height - radius}`,
+			`V${radius}`,
+			`A${radius} ${radius} 0 0 1 ${radius} 0`,
+			"Z",
+		].join("");
+		return createSvgMaskImage(boundary, viewport, {
+			data,
+			width: viewport.width,
+			height: viewport.height,
+		});
+	}
+
 	// This creates a rectangular hole using CSS gradients
 	return `
     linear-gradient(to right, black ${left}px, transparent ${left}px, transparent ${right}px, black ${right}px),
@@ -118,19 +282,62 @@ function createMaskImage(boundary: Boundary, viewport: Viewport): string {
   `;
 }
 
+/**
+ * Builds a CSS `mask-image` from an SVG that covers the boundary except for a path-shaped hole.
+ *
+ * @param boundary - Dimensions of the mask image
+ * @param viewport - Viewport dimensions; the path is stretched over the viewport centered in the boundary
+ * @param path - The hole's path and coordinate system
+ * @returns A `url()` holding the SVG as a data URL
+ */
+function createSvgMaskImage(
+	boundary: Boundary,
+	viewport: Viewport,
+	path: ViewportPath,
+): string {
+	const { width, height } = boundary;
+	const left = (width - viewport.width) / 2;
+	const top = (height - viewport.height) / 2;
+	const scaleX = viewport.width / path.width;
+	const scaleY = viewport.height / path.height;
+
+	// Areas that are white in the SVG mask stay visible in the overlay, the black path is cut out
+	const svg = [
+		`<svg xmlns="${SVG_NAMESPACE}" width="${width}" height="${height}">`,
+		'<mask id="m">',
+		`<rect width="${width}" height="${height}" fill="white"/>`,
+		`<path transform="translate(${left} ${top}) scale(${scaleX} ${scaleY})" d="${escapeAttribute(path.data)}" fill="black"/>`,
+		"</mask>",
+		`<rect width="${width}" height="${height}" mask="url(#m)"/>`,
+		"</svg>",
+	].join("");
+	return `url("data:image/svg+xml,${encodeURIComponent(svg)}")`;
+}
+
+/**
+ * Escapes a string for use in a double-quoted XML attribute.
+ */
+function escapeAttribute(value: string): string {
+	return value
+		.replace(/&/g, "&amp;")
+		.replace(/"/g, "&quot;")
+		.replace(/</g, "&lt;");
+}
+
 /**
  * Create the image element used as the crop preview.
  *
  * The element is configured with alt text, non-draggable behavior, absolute positioning,
  * origin at the top-left, and no maximum width/height so it can be transformed freely.
  *
+ * @param alt - Alternative text for the image
  * @returns The configured HTMLImageElement used to display the source image inside the cropper.
  */
-export function createPreview(): HTMLImageElement {
+export function createPreview(alt = "Cropper image"): HTMLImageElement {
 	const element = createElement("img", {
 		className: "cr-image",
 		attributes: {
-			alt: "Cropper image",
+			alt,
 			draggable: "false",
 		},
 		styles: {
@@ -151,12 +358,14 @@ export function createPreview(): HTMLImageElement {
  * @param min - Minimum slider value
  * @param max - Maximum slider value
  * @param value - Initial slider value
+ * @param label - Optional accessible name for the slider
  * @returns The configured HTMLInputElement with type `"range"` and `step` set to `0.01`
  */
 export function createZoomSlider(
 	min: number,
 	max: number,
 	value: number,
+	label?: string,
 ): HTMLInputElement {
 	const element = createElement("input", {
 		className: "cr-slider",
@@ -166,13 +375,76 @@ export function createZoomSlider(
 			max: String(max),
 			step: "0.01",
 			value: String(value),
+			...(label ? { "aria-label": label } : {}),
 		},
 	});
 	return element;
 }
 
 /**
- * Create the slider container element used to wrap the zoom slider.
+ * Creates a range input element configured as the straighten (free rotation) slider.
+ *
+ * @param min - Minimum angle in degrees
+ * @param max - Maximum angle in degrees
+ * @param value - Initial angle in degrees
+ * @param label - Optional accessible name for the slider
+ * @returns The configured HTMLInputElement with type `"range"` and `step` set to `0.1`
+ */
+export function createStraightenSlider(
+	min: number,
+	max: number,
+	value: number,
+	label?: string,
+): HTMLInputElement {
+	return createElement("input", {
+		className: "cr-slider cr-straighten-slider",
+		attributes: {
+			type: "range",
+			min: String(min),
+			max: String(max),
+			step: "0.1",
+			value: String(value),
+			...(label ? { "aria-label": label } : {}),
+		},
+	});
+}
+
+/**
+ * Create a visually hidden polite live region for screen reader announcements.
+ *
+ * @returns A div with class `cr-live-region`, role `status` and `aria-live="polite"`
+ */
+export function createLiveRegion(): HTMLDivElement {
+	return createElement("div", {
+		className: "cr-live-region",
+		attributes: {
+			role: "status",
+			"aria-live": "polite",
+			"aria-atomic": "true",
+		},
+		styles: VISUALLY_HIDDEN,
+	});
+}
+
+/**
+ * Create a visually hidden description that other elements reference with `aria-describedby`.
+ *
+ * @param text - The description text
+ * @returns A div with class `cr-description` and a unique `id`
+ */
+export function createDescription(text: string): HTMLDivElement {
+	descriptionCount++;
+	const element = createElement("div", {
+		className: "cr-description",
+		attributes: { id: `cr-description-${descriptionCount}` },
+		styles: VISUALLY_HIDDEN,
+	});
+	element.textContent = text;
+	return element;
+}
+
+/**
+ * Create the slider container element used to wrap the zoom or straighten slider.
  *
  * @returns The created div element with class "cr-slider-wrap".
  */
@@ -3,7 +3,13 @@ export {
 	createBoundary,
 	createViewport,
 	createOverlay,
+	updateOverlay,
+	updateViewportSize,
+	createResizeHandles,
 	createPreview,
 	createZoomSlider,
+	createStraightenSlider,
 	createSliderContainer,
+	createLiveRegion,
+	createDescription,
 } from "./elements.ts";
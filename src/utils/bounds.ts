@@ -1,3 +1,5 @@
+import { getOrientedDimensions, getRotatedBoundingBox } from "./image.ts";
+
 /**
  * Bounds for valid transform x/y values
  */
@@ -11,11 +13,17 @@ export interface TransformBounds {
 /**
  * Calculate the valid bounds for transform x/y to keep the image covering the viewport.
  *
+ * With a free rotation `angle`, the viewport must fit inside the tilted image, so the bounds
+ * use the viewport's bounding box in the image's rotated axes. The returned bounds then apply
+ * to the offset expressed along those axes, not along the screen axes.
+ *
  * @param imageWidth - Natural width of the image
  * @param imageHeight - Natural height of the image
  * @param scale - Current zoom scale
  * @param viewportWidth - Width of the viewport
  * @param viewportHeight - Height of the viewport
+ * @param orientation - Rotation of the image in degrees (multiples of 90); quarter turns swap the image dimensions
+ * @param angle - Additional free rotation of the image in degrees
  * @returns Bounds object with minX, maxX, minY, maxY
  */
 export function calculateBounds(
@@ -24,14 +32,18 @@ export function calculateBounds(
 	scale: number,
 	viewportWidth: number,
 	viewportHeight: number,
+	orientation = 0,
+	angle = 0,
 ): TransformBounds {
-	const scaledWidth = imageWidth * scale;
-	const scaledHeight = imageHeight * scale;
+	const oriented = getOrientedDimensions(imageWidth, imageHeight, orientation);
+	const scaledWidth = oriented.width * scale;
+	const scaledHeight = oriented.height * scale;
+	const viewport = getRotatedBoundingBox(viewportWidth, viewportHeight, angle);
 
 	// Calculate how far the image can move while still covering viewport
 	// If image is smaller than viewport, bounds collapse to 0 (centered)
-	const maxX = Math.max(0, (scaledWidth - viewportWidth) / 2);
-	const maxY = Math.max(0, (scaledHeight - viewportHeight) / 2);
+	const maxX = Math.max(0, (scaledWidth - viewport.width) / 2);
+	const maxY = Math.max(0, (scaledHeight - viewport.height) / 2);
 
 	return {
 		minX: maxX === 0 ? 0 : -maxX,
@@ -1,3 +1,5 @@
+import type { FlipState } from "../types.ts";
+
 /**
  * Create an HTML element of the given tag and apply optional class, attributes, and styles.
  *
@@ -79,18 +81,29 @@ export function getTransformValues(element: HTMLElement): {
 }
 
 /**
- * Set an element's CSS transform to a translation (in pixels) and a uniform scale.
+ * Set an element's CSS transform to a translation (in pixels), a uniform scale and an optional rotation and flip.
+ *
+ * The flip is applied first, then the rotation, then the scale, all around the element's transform origin.
  *
  * @param element - The target HTMLElement to transform
  * @param x - Horizontal translation in pixels
  * @param y - Vertical translation in pixels
  * @param scale - Uniform scale factor (1 = no scale)
+ * @param rotation - Clockwise rotation in degrees (default: `0`, omitted from the transform)
+ * @param flip - Optional mirroring, omitted from the transform when neither axis is flipped
  */
 export function setTransform(
 	element: HTMLElement,
 	x: number,
 	y: number,
 	scale: number,
+	rotation = 0,
+	flip?: FlipState,
 ): void {
-	element.style.transform = `translate(${x}px, ${y}px) scale(${scale})`;
+	const rotate = rotation ? ` rotate(${rotation}deg)` : "";
+	const mirror =
+		flip?.horizontal || flip?.vertical
+			? ` scale(${flip.horizontal ? -1 : 1}, ${flip.vertical ? -1 : 1})`
+			: "";
+	element.style.transform = `translate(${x}px, ${y}px) scale(${scale})${rotate}${mirror}`;
 }
@@ -0,0 +1,205 @@
+import type { FlipState } from "../types.ts";
+import { loadImage } from "./image.ts";
+
+/** EXIF Orientation tag in IFD0 */
+const ORIENTATION_TAG = 0x0112;
+
+/** Bytes read from the start of a file - APP1 segments are limited to 64 KiB */
+const EXIF_HEAD_BYTES = 64 * 1024;
+
+/**
+ * 2x1 JPEG tagged with orientation 6 (rotate 90° clockwise). Browsers that apply
+ * EXIF orientation themselves report it as 1x2.
+ */
+const ORIENTATION_PROBE_JPEG =
+	"data:image/jpeg;base64," +
+	"/9j/4QAiRXhpZgAATU0AKgAAAAgAAQESAAMAAAABAAYAAAAAAAD/4AAQSkZJRgABAQAAAQAB" +
+	"AAD/2wCEAFA3PEY8MlBGQUZaVVBfeMiCeG5uePWvuZHI////////////////////////////" +
+	"//////////////////////8BVVpaeGl464KC6///////////////////////////////////" +
+	"///////////////////////////////////////AABEIAAEAAgMBEQACEQEDEQH/xAGiAAAB" +
+	"BQEBAQEBAQAAAAAAAAAAAQIDBAUGBwgJCgsQAAIBAwMCBAMFBQQEAAABfQECAwAEEQUSITFB" +
+	"BhNRYQcicRQygZGhCCNCscEVUtHwJDNicoIJChYXGBkaJSYnKCkqNDU2Nzg5OkNERUZHSElK" +
+	"U1RVVldYWVpjZGVmZ2hpanN0dXZ3eHl6g4SFhoeIiYqSk5SVlpeYmZqio6Slpqeoqaqys7S1" +
+	"tre4ubrCw8TFxsfIycrS09TV1tfY2drh4uPk5ebn6Onq8fLz9PX29/j5+gEAAwEBAQEBAQEB" +
+	"AQAAAAAAAAECAwQFBgcICQoLEQACAQIEBAMEBwUEBAABAncAAQIDEQQFITEGEkFRB2FxEyIy" +
+	"gQgUQpGhscEJIzNS8BVictEKFiQ04SXxFxgZGiYnKCkqNTY3ODk6Q0RFRkdISUpTVFVWV1hZ" +
+	"WmNkZWZnaGlqc3R1dnd4eXqCg4SFhoeIiYqSk5SVlpeYmZqio6Slpqeoqaqys7S1tre4ubrC" +
+	"w8TFxsfIycrS09TV1tfY2dri4+Tl5ufo6ery8/T19vf4+fr/2gAMAwEAAhEDEQA/ALtAH//Z";
+
+let autoOrientationProbe: Promise<boolean> | null = null;
+
+/**
+ * Read the EXIF Orientation tag from JPEG bytes.
+ *
+ * Walks the JPEG markers up to the start of scan, looking for an APP1 `Exif` segment, and reads
+ * the Orientation entry from its first IFD. Both byte orders are supported.
+ *
+ * @param buffer - The start of a JPEG file (the first 64 KiB are enough)
+ * @returns The orientation (1-8), or `undefined` if the data is not a JPEG or carries no valid tag
+ */
+export function readExifOrientation(buffer: ArrayBuffer): number | undefined {
+	const view = new DataView(buffer);
+
+	// JPEG files start with the SOI marker
+	if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) {
+		return undefined;
+	}
+
+	let offset = 2;
+	while (offset + 4 <= view.byteLength) {
+		const marker = view.getUint16(offset);
+
+		// Stop at start of scan or anything that is not a marker
+		if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) {
+			return undefined;
+		}
+
+		const length = view.getUint16(offset + 2);
+		if (marker === 0xffe1) {
+			const orientation = readApp1Orientation(view, offset + 4, length - 2);
+			if (orientation !== undefined) {
+				return orientation;
+			}
+		}
+
+		offset += 2 + length;
+	}
+
+	return undefined;
+}
+
+/**
+ * Read the Orientation tag from an APP1 segment payload.
+ *
+ * @returns The orientation (1-8), or `undefined` if the segment is not EXIF or has no valid tag
+ */
+function readApp1Orientation(
+	view: DataView,
+	start: number,
+	length: number,
+): number | undefined {
+	const end = Math.min(start + length, view.byteLength);
+
+	// "Exif\0\0" header followed by the TIFF header
+	if (end - start < 14 || view.getUint32(start) !== 0x45786966) {
+		return undefined;
+	}
+
+	const tiff = start + 6;
+	const byteOrder = view.getUint16(tiff);
+	if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) {
+		return undefined;
+	}
+	const littleEndian = byteOrder === 0x4949;
+
+	const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+	if (ifd + 2 > end) {
+		return undefined;
+	}
+
+	const entries = view.getUint16(ifd, littleEndian);
+	for (let i = 0; i < entries; i++) {
+		const entry = ifd + 2 + i * 12;
+		if (entry + 12 > end) {
+			return undefined;
+		}
+
+		if (view.getUint16(entry, littleEndian) === ORIENTATION_TAG) {
+			const value = view.getUint16(entry + 8, littleEndian);
+			return value >= 1 && value <= 8 ? value : undefined;
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Read the EXIF orientation of an image given as a data URL or a Blob.
+ *
+ * Only the start of the image is decoded. Other URLs are not fetched.
+ *
+ * @param source - A `data:` URL or a Blob/File containing the image
+ * @returns The orientation (1-8), or `undefined` if none is found
+ */
+export async function getExifOrientation(
+	source: string | Blob,
+): Promise<number | undefined> {
+	if (typeof source !== "string") {
+		return readExifOrientation(
+			await source.slice(0, EXIF_HEAD_BYTES).arrayBuffer(),
+		);
+	}
+
+	const match = source.match(/^data:[^,]*;base64,/);
+	if (!match) {
+		return undefined;
+	}
+
+	// Four base64 characters encode three bytes
+	const base64 = source.slice(
+		match[0].length,
+		match[0].length + Math.ceil(EXIF_HEAD_BYTES / 3) * 4,
+	);
+	const binary = atob(base64);
+	const bytes = new Uint8Array(binary.length);
+	for (let i = 0; i < binary.length; i++) {
+		bytes[i] = binary.charCodeAt(i);
+	}
+
+	return readExifOrientation(bytes.buffer);
+}
+
+/**
+ * Convert an EXIF orientation into the rotation and flip that display the image upright.
+ *
+ * The flip is applied to the stored image first, then the clockwise rotation.
+ *
+ * @param orientation - EXIF orientation (1-8); other values are treated as 1
+ * @returns The clockwise rotation in degrees and the flip to apply before it
+ */
+export function getExifTransform(orientation: number): {
+	rotation: number;
+	flip: FlipState;
+} {
+	const flip = (horizontal: boolean, vertical = false) => ({
+		horizontal,
+		vertical,
+	});
+
+	switch (orientation) {
+		case 2:
+			return { rotation: 0, flip: flip(true) };
+		case 3:
+			return { rotation: 180, flip: flip(false) };
+		case 4:
+			return { rotation: 0, flip: flip(false, true) };
+		case 5:
+			return { rotation: 270, flip: flip(true) };
+		case 6:
+			return { rotation: 90, flip: flip(false) };
+		case 7:
+			return { rotation: 90, flip: flip(true) };
+		case 8:
+			return { rotation: 270, flip: flip(false) };
+		default:
+			return { rotation: 0, flip: flip(false) };
+	}
+}
+
+/**
+ * Detect whether the browser already applies EXIF orientation when decoding images.
+ *
+ * Modern browsers do, in which case applying the orientation again would rotate twice.
+ * The result is cached after the first call.
+ *
+ * @returns `true` if loaded images are already displayed upright
+ */
+export function browserAppliesExifOrientation(): Promise<boolean> {
+	if (!autoOrientationProbe) {
+		autoOrientationProbe = loadImage(ORIENTATION_PROBE_JPEG).then(
+			(img) => img.naturalWidth === 1 && img.naturalHeight === 2,
+			() => false,
+		);
+	}
+	return autoOrientationProbe;
+}
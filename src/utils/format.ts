@@ -0,0 +1,15 @@
+/**
+ * Fill the `{name}` placeholders of a localizable label.
+ *
+ * @param template - Label text with placeholders, e.g. `"Zoom {zoom}%"`
+ * @param values - Replacement values by placeholder name
+ * @returns The label with every known placeholder replaced; unknown placeholders are kept
+ */
+export function formatLabel(
+	template: string,
+	values: Record<string, string | number>,
+): string {
+	return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+		name in values ? String(values[name]) : match,
+	);
+}
@@ -92,3 +92,59 @@ export function calculateInitialZoom(
 	// Use the larger ratio to ensure viewport is filled
 	return Math.max(widthRatio, heightRatio);
 }
+
+/**
+ * Normalize a rotation in degrees to the range [0, 360).
+ *
+ * @returns The equivalent angle in degrees, e.g. `-90` becomes `270`
+ */
+export function normalizeOrientation(degrees: number): number {
+	return ((degrees % 360) + 360) % 360;
+}
+
+/**
+ * Compute the dimensions of an image after rotating it by a multiple of 90 degrees.
+ *
+ * @param width - Unrotated image width in pixels
+ * @param height - Unrotated image height in pixels
+ * @param orientation - Rotation in degrees (multiples of 90)
+ * @returns The rotated dimensions; width and height are swapped for quarter turns
+ */
+export function getOrientedDimensions(
+	width: number,
+	height: number,
+	orientation: number,
+): { width: number; height: number } {
+	const normalized = normalizeOrientation(orientation);
+	if (normalized === 90 || normalized === 270) {
+		return { width: height, height: width };
+	}
+	return { width, height };
+}
+
+/**
+ * Compute the bounding box of a rectangle rotated by an arbitrary angle.
+ *
+ * @param width - Unrotated width in pixels
+ * @param height - Unrotated height in pixels
+ * @param degrees - Rotation in degrees; multiples of 90 give exact results
+ * @returns The width and height of the axis-aligned box enclosing the rotated rectangle
+ */
+export function getRotatedBoundingBox(
+	width: number,
+	height: number,
+	degrees: number,
+): { width: number; height: number } {
+	if (degrees % 90 === 0) {
+		return getOrientedDimensions(width, height, degrees);
+	}
+
+	const radians = (degrees * Math.PI) / 180;
+	const cos = Math.abs(Math.cos(radians));
+	const sin = Math.abs(Math.sin(radians));
+
+	return {
+		width: width * cos + height * sin,
+		height: width * sin + height * cos,
+	};
+}
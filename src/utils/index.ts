@@ -1,17 +1,36 @@
 export { calculateBounds, type TransformBounds } from "./bounds.ts";
 export { clamp } from "./clamp.ts";
 export { debounce } from "./debounce.ts";
+export {
+	browserAppliesExifOrientation,
+	getExifOrientation,
+	getExifTransform,
+	readExifOrientation,
+} from "./exif.ts";
 export { createElement, getTransformValues, setTransform } from "./dom.ts";
+export { formatLabel } from "./format.ts";
 export {
 	loadImage,
 	fileToDataUrl,
 	getImageDimensions,
 	aspectRatio,
 	calculateInitialZoom,
+	normalizeOrientation,
+	getOrientedDimensions,
+	getRotatedBoundingBox,
 } from "./image.ts";
 export {
 	normalizePoints,
 	pointsToArray,
+	pointsToTransform,
+	rotateVector,
 	type PointsArray,
 	type PointsInput,
 } from "./points.ts";
+export {
+	DEFAULT_CORNER_RADIUS,
+	getCornerRadius,
+	getViewportPath,
+	isEllipticalViewport,
+	type ViewportPath,
+} from "./viewport.ts";
@@ -1,4 +1,4 @@
-import type { CropPoints, PointsArray } from "../types";
+import type { CropPoints, PointsArray, TransformState } from "../types";
 
 // Re-export for convenience
 export type { PointsArray };
@@ -53,3 +53,74 @@ export function pointsToArray(points: CropPoints): PointsArray {
 		points.bottomRightY,
 	];
 }
+
+/**
+ * Compute the transform that shows a crop region in the viewport.
+ *
+ * The zoom is chosen so the whole region fits inside the viewport. When the region's aspect
+ * ratio differs from the viewport's, the region is centered and the viewport shows extra image
+ * along the shorter axis. Translation is relative to the image centered in the boundary.
+ *
+ * @param points - Crop region in image pixels
+ * @param imageWidth - Image width in pixels
+ * @param imageHeight - Image height in pixels
+ * @param viewportWidth - Viewport width in pixels
+ * @param viewportHeight - Viewport height in pixels
+ * @returns The `x`/`y` translation and `scale` that center the region in the viewport
+ * @throws Error if the points do not describe a region with positive width and height.
+ */
+export function pointsToTransform(
+	points: CropPoints,
+	imageWidth: number,
+	imageHeight: number,
+	viewportWidth: number,
+	viewportHeight: number,
+): Pick<TransformState, "x" | "y" | "scale"> {
+	const width = points.bottomRightX - points.topLeftX;
+	const height = points.bottomRightY - points.topLeftY;
+
+	if (!(width > 0 && height > 0)) {
+		throw new Error(
+			"Crop points must describe a region with positive width and height",
+		);
+	}
+
+	const scale = Math.min(viewportWidth / width, viewportHeight / height);
+	const centerX = points.topLeftX + width / 2;
+	const centerY = points.topLeftY + height / 2;
+
+	return {
+		x: (imageWidth / 2 - centerX) * scale,
+		y: (imageHeight / 2 - centerY) * scale,
+		scale,
+	};
+}
+
+/**
+ * Rotate a vector clockwise (in screen coordinates, y pointing down) around the origin.
+ *
+ * @param x - Horizontal component
+ * @param y - Vertical component
+ * @param degrees - Clockwise rotation in degrees; multiples of 90 give exact results
+ * @returns The rotated vector
+ */
+export function rotateVector(
+	x: number,
+	y: number,
+	degrees: number,
+): { x: number; y: number } {
+	const radians = (degrees * Math.PI) / 180;
+	let cos = Math.cos(radians);
+	let sin = Math.sin(radians);
+
+	// Avoid floating point noise for quarter turns
+	if (degrees % 90 === 0) {
+		cos = Math.round(cos);
+		sin = Math.round(sin);
+	}
+
+	return {
+		x: x * cos - y * sin,
+		y: x * sin + y * cos,
+	};
+}
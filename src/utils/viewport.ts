@@ -0,0 +1,63 @@
+import type { Viewport } from "../types.ts";
+import { clamp } from "./clamp.ts";
+
+/** Corner radius of "rounded" viewports that do not set `radius` */
+export const DEFAULT_CORNER_RADIUS = 16;
+
+/**
+ * A viewport's custom mask as SVG path data and the size of its coordinate system
+ */
+export interface ViewportPath {
+	/** SVG path data */
+	data: string;
+	/** Width of the coordinate system the path is drawn in */
+	width: number;
+	/** Height of the coordinate system the path is drawn in */
+	height: number;
+}
+
+/**
+ * Whether a viewport is cut out as the ellipse inscribed in its rectangle.
+ *
+ * "circle" viewports are elliptical too, so a circle stretched by a resize or an
+ * unequal width and height still matches its border and overlay. A custom `path`
+ * replaces the shape of any type.
+ */
+export function isEllipticalViewport(viewport: Viewport): boolean {
+	return (
+		!viewport.path &&
+		(viewport.type === "circle" || viewport.type === "ellipse")
+	);
+}
+
+/**
+ * Resolve the corner radius of a viewport in pixels.
+ *
+ * @returns The configured radius of a "rounded" viewport, limited to half its shorter side; `0` for other types and path viewports
+ */
+export function getCornerRadius(viewport: Viewport): number {
+	if (viewport.type !== "rounded" || viewport.path) {
+		return 0;
+	}
+	const maxRadius = Math.min(viewport.width, viewport.height) / 2;
+	return clamp(viewport.radius ?? DEFAULT_CORNER_RADIUS, 0, maxRadius);
+}
+
+/**
+ * Resolve the custom mask of a viewport, converting polygon corners to SVG path data.
+ *
+ * @returns The path and its coordinate system, or `null` if the viewport has no `path`
+ */
+export function getViewportPath(viewport: Viewport): ViewportPath | null {
+	const { path } = viewport;
+	if (!path) {
+		return null;
+	}
+
+	const data =
+		typeof path === "string"
+			? path
+			: `${path.map(([x, y], i) => `${i === 0 ? "M" : "L"}${x} ${y}`).join("")}Z`;
+	const box = viewport.viewBox ?? viewport;
+	return { data, width: box.width, height: box.height };
+}
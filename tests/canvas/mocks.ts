@@ -5,17 +5,23 @@
  * to enable testing canvas-related functionality.
  */
 
+import { jest } from "bun:test";
+
 // Store original methods for restoration
 let originalToBlob: typeof HTMLCanvasElement.prototype.toBlob | undefined;
 let originalToDataURL: typeof HTMLCanvasElement.prototype.toDataURL | undefined;
 
 export interface MockCanvasContext {
-	fillRect: ReturnType<typeof Bun.jest.fn>;
-	beginPath: ReturnType<typeof Bun.jest.fn>;
-	arc: ReturnType<typeof Bun.jest.fn>;
-	closePath: ReturnType<typeof Bun.jest.fn>;
-	clip: ReturnType<typeof Bun.jest.fn>;
-	drawImage: ReturnType<typeof Bun.jest.fn>;
+	fillRect: ReturnType<typeof jest.fn>;
+	beginPath: ReturnType<typeof jest.fn>;
+	arc: ReturnType<typeof jest.fn>;
+	ellipse: ReturnType<typeof jest.fn>;
+	closePath: ReturnType<typeof jest.fn>;
+	clip: ReturnType<typeof jest.fn>;
+	drawImage: ReturnType<typeof jest.fn>;
+	getImageData: ReturnType<typeof jest.fn>;
+	createImageData: ReturnType<typeof jest.fn>;
+	putImageData: ReturnType<typeof jest.fn>;
 	fillStyle: string;
 }
 
@@ -28,24 +34,50 @@ export interface MockCanvasContext {
  */
 export function createMockCanvasContext(): MockCanvasContext {
 	return {
-		fillRect: Bun.jest.fn(),
-		beginPath: Bun.jest.fn(),
-		arc: Bun.jest.fn(),
-		closePath: Bun.jest.fn(),
-		clip: Bun.jest.fn(),
-		drawImage: Bun.jest.fn(),
+		fillRect: jest.fn(),
+		beginPath: jest.fn(),
+		arc: jest.fn(),
+		ellipse: jest.fn(),
+		closePath: jest.fn(),
+		clip: jest.fn(),
+		drawImage: jest.fn(),
+		getImageData: jest.fn(createBlankImageData),
+		createImageData: jest.fn(createBlankImageData),
+		putImageData: jest.fn(),
 		fillStyle: "",
 	};
 }
 
+/**
+ * Create transparent `ImageData`-like pixels, as returned by the mock context's `getImageData` and `createImageData`.
+ */
+function createBlankImageData(
+	...args: [number, number] | [number, number, number, number]
+) {
+	const [width, height] = args.length === 4 ? [args[2], args[3]] : args;
+	return { data: new Uint8ClampedArray(width * height * 4), width, height };
+}
+
 /**
  * Install test-friendly mocks on HTMLCanvasElement prototypes.
  *
  * Mocks:
  * - `toBlob(callback, type, quality)` — invokes `callback` with a `Blob` whose data is `"mock-canvas-data"` and whose MIME type is `type` or `"image/png"`.
  * - `toDataURL(type, quality)` — returns a data URL of the form `data:<type or "image/png">;base64,mockbase64data`.
+ *
+ * Like browsers, both fall back to `"image/png"` for types missing from `supportedTypes`.
  */
-export function setupCanvasMocks(): void {
+export function setupCanvasMocks(
+	supportedTypes: string[] = [
+		"image/png",
+		"image/jpeg",
+		"image/webp",
+		"image/avif",
+	],
+): void {
+	const encodedType = (type?: string) =>
+		type && supportedTypes.includes(type) ? type : "image/png";
+
 	// Only store originals if not already mocked (idempotent)
 	if (originalToBlob === undefined) {
 		originalToBlob = HTMLCanvasElement.prototype.toBlob;
@@ -60,7 +92,7 @@ export function setupCanvasMocks(): void {
 		type?: string,
 		_quality?: number,
 	) {
-		const blob = new Blob(["mock-canvas-data"], { type: type || "image/png" });
+		const blob = new Blob(["mock-canvas-data"], { type: encodedType(type) });
 		queueMicrotask(() => callback(blob));
 	};
 
@@ -69,7 +101,7 @@ export function setupCanvasMocks(): void {
 		type?: string,
 		_quality?: number,
 	) {
-		return `data:${type || "image/png"};base64,mockbase64data`;
+		return `data:${encodedType(type)};base64,mockbase64data`;
 	};
 }
 
@@ -118,3 +150,41 @@ export function createMockCanvas(
 
 	return { canvas, ctx };
 }
+
+/**
+ * Make every canvas return a mock 2D context, so drawing code runs under happy-dom.
+ *
+ * @returns The canvases whose context was requested, each with its mock context, and a function that restores `getContext`
+ */
+export function installCanvasContextMock(): {
+	canvases: Array<{ canvas: HTMLCanvasElement; ctx: MockCanvasContext }>;
+	restore: () => void;
+} {
+	const originalGetContext = HTMLCanvasElement.prototype.getContext;
+	const canvases: Array<{ canvas: HTMLCanvasElement; ctx: MockCanvasContext }> =
+		[];
+	const contexts = new WeakMap<HTMLCanvasElement, MockCanvasContext>();
+
+	HTMLCanvasElement.prototype.getContext = function (
+		this: HTMLCanvasElement,
+		contextId: string,
+	) {
+		if (contextId !== "2d") {
+			return null;
+		}
+		let ctx = contexts.get(this);
+		if (!ctx) {
+			ctx = createMockCanvasContext();
+			contexts.set(this, ctx);
+			canvases.push({ canvas: this, ctx });
+		}
+		return ctx as unknown as CanvasRenderingContext2D;
+	} as typeof HTMLCanvasElement.prototype.getContext;
+
+	return {
+		canvases,
+		restore: () => {
+			HTMLCanvasElement.prototype.getContext = originalGetContext;
+		},
+	};
+}
@@ -0,0 +1,62 @@
+/**
+ * Builders for minimal JPEG byte streams carrying an EXIF Orientation tag
+ */
+
+/**
+ * Create the start of a JPEG file (SOI followed by an APP1 Exif segment) whose IFD0
+ * holds a single Orientation entry.
+ *
+ * @param orientation - Orientation tag value to store
+ * @param options.littleEndian - Use Intel ("II") byte order instead of Motorola ("MM")
+ * @param options.prefixSegments - Raw segments inserted between SOI and the Exif segment
+ * @returns The JPEG bytes
+ */
+export function createExifJpeg(
+	orientation: number,
+	options: { littleEndian?: boolean; prefixSegments?: number[][] } = {},
+): Uint8Array {
+	const le = options.littleEndian ?? false;
+	const u16 = (value: number) =>
+		le ? [value & 0xff, value >> 8] : [value >> 8, value & 0xff];
+	const u32 = (value: number) =>
+		le
+			? [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, value >>> 24]
+			: [value >>> 24, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+
+	const tiff = [
+		...(le ? [0x49, 0x49] : [0x4d, 0x4d]),
+		...u16(0x2a),
+		...u32(8),
+		...u16(1),
+		...u16(0x0112),
+		...u16(3),
+		...u32(1),
+		...u16(orientation),
+		0,
+		0,
+		...u32(0),
+	];
+	const payload = [0x45, 0x78, 0x69, 0x66, 0, 0, ...tiff];
+	const length = payload.length + 2;
+
+	return new Uint8Array([
+		0xff,
+		0xd8,
+		...(options.prefixSegments ?? []).flat(),
+		0xff,
+		0xe1,
+		length >> 8,
+		length & 0xff,
+		...payload,
+		// Start of scan ends the header
+		0xff,
+		0xda,
+	]);
+}
+
+/**
+ * Encode bytes as a base64 JPEG data URL.
+ */
+export function toJpegDataUrl(bytes: Uint8Array): string {
+	return `data:image/jpeg;base64,${Buffer.from(bytes).toString("base64")}`;
+}
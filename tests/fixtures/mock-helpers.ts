@@ -6,9 +6,13 @@
  * Install a mock Image constructor that automatically fires onload when src is set.
  * This works around happy-dom's limitation where Image.onload doesn't fire for data URLs.
  *
+ * @param dimensions - Optional natural size reported by loaded images (happy-dom reports 0x0)
  * @returns A cleanup function that restores the original Image constructor
  */
-export function installImageMock(): () => void {
+export function installImageMock(dimensions?: {
+	width: number;
+	height: number;
+}): () => void {
 	const OriginalImage = globalThis.Image;
 
 	class MockImage extends OriginalImage {
@@ -16,6 +20,14 @@ export function installImageMock(): () => void {
 		private _onload: ((event: Event) => void) | null = null;
 		private _onerror: ((event: Event) => void) | null = null;
 
+		override get naturalWidth(): number {
+			return dimensions?.width ?? super.naturalWidth;
+		}
+
+		override get naturalHeight(): number {
+			return dimensions?.height ?? super.naturalHeight;
+		}
+
 		get src(): string {
 			return this._src;
 		}
@@ -177,6 +189,13 @@ export function createWheelEvent(
 		});
 	}
 
+	// Happy-dom's WheelEvent ignores the MouseEvent coordinates
+	for (const key of ["clientX", "clientY"] as const) {
+		if (options[key] !== undefined) {
+			Object.defineProperty(event, key, { value: options[key] });
+		}
+	}
+
 	return event;
 }
 
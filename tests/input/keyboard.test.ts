@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+import { createKeyboardHandler } from "../../src/input/keyboard.ts";
+import type { KeyboardConfig } from "../../src/types.ts";
+
+describe("Keyboard Handler", () => {
+	let element: HTMLDivElement;
+	let actions: {
+		pan: ReturnType<typeof mock>;
+		zoom: ReturnType<typeof mock>;
+		rotate: ReturnType<typeof mock>;
+	};
+	const config: KeyboardConfig = {
+		panStep: 10,
+		panStepLarge: 50,
+		zoomStep: 0.1,
+	};
+
+	const pressKey = (key: string, options: KeyboardEventInit = {}) => {
+		const event = new KeyboardEvent("keydown", {
+			key,
+			bubbles: true,
+			cancelable: true,
+			...options,
+		});
+		element.dispatchEvent(event);
+		return event;
+	};
+
+	beforeEach(() => {
+		element = document.createElement("div");
+		document.body.appendChild(element);
+		actions = { pan: mock(), zoom: mock(), rotate: mock() };
+	});
+
+	afterEach(() => {
+		element.remove();
+	});
+
+	describe("initialization", () => {
+		it("makes the element focusable", () => {
+			createKeyboardHandler(element, actions, config);
+			expect(element.tabIndex).toBe(0);
+		});
+
+		it("keeps an existing tabindex", () => {
+			element.tabIndex = -1;
+			createKeyboardHandler(element, actions, config);
+			expect(element.tabIndex).toBe(-1);
+		});
+	});
+
+	describe("panning", () => {
+		it("pans by the step in the arrow direction", () => {
+			createKeyboardHandler(element, actions, config);
+
+			pressKey("ArrowLeft");
+			pressKey("ArrowRight");
+			pressKey("ArrowUp");
+			pressKey("ArrowDown");
+
+			expect(actions.pan.mock.calls).toEqual([
+				[-10, 0],
+				[10, 0],
+				[0, -10],
+				[0, 10],
+			]);
+		});
+
+		it("uses the large step with Shift", () => {
+			createKeyboardHandler(element, actions, config);
+
+			pressKey("ArrowRight", { shiftKey: true });
+
+			expect(actions.pan).toHaveBeenCalledWith(50, 0);
+		});
+
+		it("prevents default scrolling", () => {
+			createKeyboardHandler(element, actions, config);
+
+			const event = pressKey("ArrowDown");
+
+			expect(event.defaultPrevented).toBe(true);
+		});
+	});
+
+	describe("zooming", () => {
+		it("zooms in with + and =", () => {
+			createKeyboardHandler(element, actions, config);
+
+			pressKey("+");
+			pressKey("=");
+
+			expect(actions.zoom.mock.calls).toEqual([[1.1], [1.1]]);
+		});
+
+		it("zooms out with -", () => {
+			createKeyboardHandler(element, actions, config);
+
+			pressKey("-");
+
+			expect(actions.zoom).toHaveBeenCalledWith(1 / 1.1);
+		});
+
+		it("uses the configured zoom step", () => {
+			createKeyboardHandler(element, actions, { ...config, zoomStep: 0.25 });
+
+			pressKey("+");
+
+			expect(actions.zoom).toHaveBeenCalledWith(1.25);
+		});
+	});
+
+	describe("rotation", () => {
+		it("rotates clockwise with R", () => {
+			createKeyboardHandler(element, actions, config);
+
+			pressKey("r");
+
+			expect(actions.rotate).toHaveBeenCalledWith(90);
+		});
+
+		it("rotates counter-clockwise with Shift+R", () => {
+			createKeyboardHandler(element, actions, config);
+
+			pressKey("R", { shiftKey: true });
+
+			expect(actions.rotate).toHaveBeenCalledWith(-90);
+		});
+	});
+
+	describe("ignored keys", () => {
+		it("ignores unrelated keys", () => {
+			createKeyboardHandler(element, actions, config);
+
+			const event = pressKey("a");
+
+			expect(actions.pan).not.toHaveBeenCalled();
+			expect(actions.zoom).not.toHaveBeenCalled();
+			expect(actions.rotate).not.toHaveBeenCalled();
+			expect(event.defaultPrevented).toBe(false);
+		});
+
+		it("leaves browser shortcuts alone", () => {
+			createKeyboardHandler(element, actions, config);
+
+			pressKey("r", { ctrlKey: true });
+			pressKey("+", { metaKey: true });
+			pressKey("ArrowLeft", { altKey: true });
+
+			expect(actions.pan).not.toHaveBeenCalled();
+			expect(actions.zoom).not.toHaveBeenCalled();
+			expect(actions.rotate).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("cleanup", () => {
+		it("removes the keydown listener", () => {
+			const cleanup = createKeyboardHandler(element, actions, config);
+
+			cleanup();
+			pressKey("ArrowLeft");
+
+			expect(actions.pan).not.toHaveBeenCalled();
+		});
+	});
+});
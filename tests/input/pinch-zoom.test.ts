@@ -314,6 +314,68 @@ describe("Pinch Zoom Handler", () => {
 		});
 	});
 
+	describe("midpoint anchor", () => {
+		let position: { x: number; y: number };
+		let anchor: {
+			getPosition: () => { x: number; y: number };
+			setPosition: ReturnType<typeof mock>;
+		};
+
+		beforeEach(() => {
+			position = { x: 0, y: 0 };
+			anchor = {
+				getPosition: () => position,
+				setPosition: mock((x: number, y: number) => {
+					position = { x, y };
+				}),
+			};
+			element.getBoundingClientRect = () =>
+				({ left: 0, top: 0, width: 200, height: 200 }) as DOMRect;
+		});
+
+		it("keeps the point under the touch midpoint in place", () => {
+			createPinchZoomHandler(element, getZoom, setZoom, config, undefined, anchor);
+
+			// Midpoint (150, 100) is 50px right of the element center
+			element.dispatchEvent(
+				createTouchEvent("touchstart", [
+					{ clientX: 100, clientY: 100 },
+					{ clientX: 200, clientY: 100 },
+				]),
+			);
+			element.dispatchEvent(
+				createTouchEvent("touchmove", [
+					{ clientX: 50, clientY: 100 },
+					{ clientX: 250, clientY: 100 },
+				]),
+			);
+
+			expect(currentZoom).toBe(2);
+			expect(position).toEqual({ x: -50, y: 0 });
+		});
+
+		it("pans when the midpoint moves", () => {
+			createPinchZoomHandler(element, getZoom, setZoom, config, undefined, anchor);
+
+			element.dispatchEvent(
+				createTouchEvent("touchstart", [
+					{ clientX: 100, clientY: 100 },
+					{ clientX: 200, clientY: 100 },
+				]),
+			);
+			element.dispatchEvent(
+				createTouchEvent("touchmove", [
+					{ clientX: 100, clientY: 130 },
+					{ clientX: 200, clientY: 130 },
+				]),
+			);
+
+			// Same distance, so only the 30px move of the midpoint applies
+			expect(setZoom).not.toHaveBeenCalled();
+			expect(position).toEqual({ x: 0, y: 30 });
+		});
+	});
+
 	describe("cleanup", () => {
 		it("removes all touch event listeners", () => {
 			const onChange = mock();
@@ -0,0 +1,209 @@
+import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+import {
+	type ResizeLimits,
+	calculateResize,
+	createResizeHandler,
+} from "../../src/input/resize.ts";
+import { createPointerEvent } from "../fixtures/mock-helpers.ts";
+
+const limits: ResizeLimits = {
+	minWidth: 50,
+	maxWidth: 400,
+	minHeight: 50,
+	maxHeight: 300,
+};
+
+describe("calculateResize", () => {
+	it("grows both sides when dragging an edge outward", () => {
+		expect(calculateResize("e", 100, 100, 10, 0, limits)).toEqual({
+			width: 120,
+			height: 100,
+		});
+		expect(calculateResize("w", 100, 100, -10, 0, limits)).toEqual({
+			width: 120,
+			height: 100,
+		});
+		expect(calculateResize("n", 100, 100, 0, -10, limits)).toEqual({
+			width: 100,
+			height: 120,
+		});
+		expect(calculateResize("s", 100, 100, 0, 10, limits)).toEqual({
+			width: 100,
+			height: 120,
+		});
+	});
+
+	it("ignores movement along the other axis for edge handles", () => {
+		expect(calculateResize("e", 100, 100, 10, 40, limits)).toEqual({
+			width: 120,
+			height: 100,
+		});
+	});
+
+	it("resizes both dimensions from a corner", () => {
+		expect(calculateResize("se", 100, 100, 10, 20, limits)).toEqual({
+			width: 120,
+			height: 140,
+		});
+		expect(calculateResize("nw", 100, 100, 10, 20, limits)).toEqual({
+			width: 80,
+			height: 60,
+		});
+	});
+
+	it("rounds fractional pointer movement to whole pixels", () => {
+		expect(calculateResize("se", 100, 100, 2.3, 4.15, limits)).toEqual({
+			width: 105,
+			height: 108,
+		});
+	});
+
+	it("clamps to the size limits", () => {
+		expect(calculateResize("se", 100, 100, -100, 500, limits)).toEqual({
+			width: 50,
+			height: 300,
+		});
+	});
+
+	describe("with locked aspect ratio", () => {
+		const locked: ResizeLimits = { ...limits, aspectRatio: 2 };
+
+		it("derives height from width on horizontal edges", () => {
+			expect(calculateResize("e", 100, 50, 20, 0, locked)).toEqual({
+				width: 140,
+				height: 70,
+			});
+		});
+
+		it("derives width from height on vertical edges", () => {
+			expect(calculateResize("s", 100, 50, 0, 10, locked)).toEqual({
+				width: 140,
+				height: 70,
+			});
+		});
+
+		it("follows the larger relative change on corners", () => {
+			// Width +20%, height +40%: height wins
+			expect(calculateResize("se", 100, 50, 10, 10, locked)).toEqual({
+				width: 140,
+				height: 70,
+			});
+		});
+
+		it("rounds to whole pixels with a fractional ratio", () => {
+			const wide: ResizeLimits = { ...limits, aspectRatio: 16 / 9 };
+
+			// 215 / (16 / 9) = 120.9375
+			expect(calculateResize("e", 200, 150, 7.5, 0, wide)).toEqual({
+				width: 215,
+				height: 121,
+			});
+			// minHeight 50 needs a width of at least 88.9
+			expect(calculateResize("w", 100, 56, 40, 0, wide)).toEqual({
+				width: 89,
+				height: 50,
+			});
+		});
+
+		it("keeps the ratio when clamping", () => {
+			// maxHeight 300 limits width to 600, maxWidth 400 wins
+			expect(calculateResize("e", 100, 50, 500, 0, locked)).toEqual({
+				width: 400,
+				height: 200,
+			});
+			// minHeight 50 forces width >= 100
+			expect(calculateResize("w", 120, 60, 50, 0, locked)).toEqual({
+				width: 100,
+				height: 50,
+			});
+		});
+	});
+});
+
+describe("Resize Handler", () => {
+	let handle: HTMLDivElement;
+	let parent: HTMLDivElement;
+	let size: { width: number; height: number };
+	let setSize: ReturnType<typeof mock>;
+
+	beforeEach(() => {
+		parent = document.createElement("div");
+		handle = document.createElement("div");
+		handle.dataset.direction = "se";
+		parent.appendChild(handle);
+		document.body.appendChild(parent);
+
+		// Mock pointer capture methods (not implemented in happy-dom)
+		handle.setPointerCapture = mock();
+		handle.releasePointerCapture = mock();
+
+		size = { width: 100, height: 100 };
+		setSize = mock((width: number, height: number) => {
+			size = { width, height };
+		});
+	});
+
+	afterEach(() => {
+		parent.remove();
+	});
+
+	it("resizes while a handle is dragged", () => {
+		createResizeHandler([handle], () => size, setSize, limits);
+
+		handle.dispatchEvent(
+			createPointerEvent("pointerdown", { clientX: 100, clientY: 100 }),
+		);
+		handle.dispatchEvent(
+			createPointerEvent("pointermove", { clientX: 110, clientY: 105 }),
+		);
+
+		expect(setSize).toHaveBeenCalledWith(120, 110);
+	});
+
+	it("does not propagate pointer events to the boundary", () => {
+		const parentHandler = mock();
+		parent.addEventListener("pointerdown", parentHandler);
+		createResizeHandler([handle], () => size, setSize, limits);
+
+		handle.dispatchEvent(createPointerEvent("pointerdown"));
+
+		expect(parentHandler).not.toHaveBeenCalled();
+	});
+
+	it("stops resizing after pointerup", () => {
+		const onEnd = mock();
+		createResizeHandler([handle], () => size, setSize, limits, { onEnd });
+
+		handle.dispatchEvent(createPointerEvent("pointerdown"));
+		handle.dispatchEvent(createPointerEvent("pointerup"));
+		handle.dispatchEvent(
+			createPointerEvent("pointermove", { clientX: 150, clientY: 150 }),
+		);
+
+		expect(onEnd).toHaveBeenCalledWith({ width: 100, height: 100 });
+		expect(setSize).not.toHaveBeenCalled();
+	});
+
+	it("ignores non-primary buttons", () => {
+		createResizeHandler([handle], () => size, setSize, limits);
+
+		handle.dispatchEvent(createPointerEvent("pointerdown", { button: 2 }));
+		handle.dispatchEvent(
+			createPointerEvent("pointermove", { clientX: 150, clientY: 150 }),
+		);
+
+		expect(setSize).not.toHaveBeenCalled();
+	});
+
+	it("removes listeners on cleanup", () => {
+		const cleanup = createResizeHandler([handle], () => size, setSize, limits);
+		cleanup();
+
+		handle.dispatchEvent(createPointerEvent("pointerdown"));
+		handle.dispatchEvent(
+			createPointerEvent("pointermove", { clientX: 150, clientY: 150 }),
+		);
+
+		expect(setSize).not.toHaveBeenCalled();
+	});
+});
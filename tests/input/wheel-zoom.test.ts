@@ -1,5 +1,9 @@
 import { describe, expect, it, beforeEach, afterEach, mock } from "bun:test";
-import { createWheelZoomHandler } from "../../src/input/zoom.ts";
+import {
+	calculateAnchoredPosition,
+	createWheelZoomHandler,
+	getWheelZoomFactor,
+} from "../../src/input/zoom.ts";
 import { createWheelEvent } from "../fixtures/mock-helpers.ts";
 import type { ZoomConfig } from "../../src/types.ts";
 
@@ -45,8 +49,8 @@ describe("Wheel Zoom Handler", () => {
 
 			element.dispatchEvent(createWheelEvent(100)); // Scroll down
 
-			// Should decrease zoom by 0.1
-			expect(setZoom).toHaveBeenCalledWith(0.9);
+			// 100px at the default sensitivity of 0.002
+			expect(setZoom).toHaveBeenCalledWith(Math.exp(-0.2));
 		});
 
 		it("zooms in on scroll up (negative deltaY)", () => {
@@ -54,8 +58,7 @@ describe("Wheel Zoom Handler", () => {
 
 			element.dispatchEvent(createWheelEvent(-100)); // Scroll up
 
-			// Should increase zoom by 0.1
-			expect(setZoom).toHaveBeenCalledWith(1.1);
+			expect(setZoom).toHaveBeenCalledWith(Math.exp(0.2));
 		});
 
 		it("clamps zoom to minimum", () => {
@@ -102,7 +105,7 @@ describe("Wheel Zoom Handler", () => {
 
 			element.dispatchEvent(createWheelEvent(-100)); // Zoom in
 
-			expect(onChange).toHaveBeenCalledWith(1.1, 1);
+			expect(onChange).toHaveBeenCalledWith(Math.exp(0.2), 1);
 		});
 
 		it("does not call onChange when zoom unchanged", () => {
@@ -142,7 +145,8 @@ describe("Wheel Zoom Handler", () => {
 
 			element.dispatchEvent(createWheelEvent(-100, { ctrlKey: true }));
 
-			expect(setZoom).toHaveBeenCalledWith(1.1);
+			// A mouse wheel with ctrl held zooms at wheel speed
+			expect(setZoom).toHaveBeenCalledWith(Math.exp(0.2));
 		});
 
 		it("responds to wheel events without ctrl when requireCtrl is false", () => {
@@ -150,7 +154,7 @@ describe("Wheel Zoom Handler", () => {
 
 			element.dispatchEvent(createWheelEvent(-100));
 
-			expect(setZoom).toHaveBeenCalledWith(1.1);
+			expect(setZoom).toHaveBeenCalledWith(Math.exp(0.2));
 		});
 
 		it("responds to wheel events when requireCtrl is not specified", () => {
@@ -158,7 +162,7 @@ describe("Wheel Zoom Handler", () => {
 
 			element.dispatchEvent(createWheelEvent(-100));
 
-			expect(setZoom).toHaveBeenCalledWith(1.1);
+			expect(setZoom).toHaveBeenCalledWith(Math.exp(0.2));
 		});
 
 		it("does not call onChange when ctrl not pressed in requireCtrl mode", () => {
@@ -183,28 +187,186 @@ describe("Wheel Zoom Handler", () => {
 			createWheelZoomHandler(element, getZoom, setZoom, config);
 
 			element.dispatchEvent(createWheelEvent(-100)); // Zoom in
-			expect(currentZoom).toBeCloseTo(1.1, 5);
+			expect(currentZoom).toBeCloseTo(Math.exp(0.2), 5);
 
 			element.dispatchEvent(createWheelEvent(-100)); // Zoom in again
-			expect(currentZoom).toBeCloseTo(1.2, 5);
+			expect(currentZoom).toBeCloseTo(Math.exp(0.4), 5);
 
 			element.dispatchEvent(createWheelEvent(-100)); // Zoom in again
-			expect(currentZoom).toBeCloseTo(1.3, 5);
+			expect(currentZoom).toBeCloseTo(Math.exp(0.6), 5);
 		});
 
 		it("stops at bounds", () => {
 			config = { min: 1, max: 1.25 };
 			createWheelZoomHandler(element, getZoom, setZoom, config);
 
-			element.dispatchEvent(createWheelEvent(-100)); // +0.1 = 1.1
-			element.dispatchEvent(createWheelEvent(-100)); // +0.1 = 1.2
-			element.dispatchEvent(createWheelEvent(-100)); // +0.1 = 1.25 (clamped)
+			element.dispatchEvent(createWheelEvent(-100)); // ~1.22
+			element.dispatchEvent(createWheelEvent(-100)); // 1.25 (clamped)
 			element.dispatchEvent(createWheelEvent(-100)); // stays at 1.25
 
 			expect(currentZoom).toBeCloseTo(1.25, 5);
 		});
 	});
 
+	describe("cursor anchor", () => {
+		let position: { x: number; y: number };
+		let anchor: {
+			getPosition: () => { x: number; y: number };
+			setPosition: ReturnType<typeof mock>;
+		};
+
+		beforeEach(() => {
+			position = { x: 0, y: 0 };
+			anchor = {
+				getPosition: () => position,
+				setPosition: mock((x: number, y: number) => {
+					position = { x, y };
+				}),
+			};
+			element.getBoundingClientRect = () =>
+				({ left: 0, top: 0, width: 200, height: 200 }) as DOMRect;
+		});
+
+		it("keeps the point under the cursor in place", () => {
+			createWheelZoomHandler(element, getZoom, setZoom, config, undefined, false, anchor);
+
+			// Cursor 50px right of the element center
+			element.dispatchEvent(createWheelEvent(-100, { clientX: 150, clientY: 100 }));
+
+			// The image center moves away from the cursor by the zoom ratio
+			expect(anchor.setPosition).toHaveBeenCalledTimes(1);
+			expect(position.x).toBeCloseTo(50 - 50 * Math.exp(0.2), 5);
+			expect(position.y).toBeCloseTo(0, 5);
+		});
+
+		it("uses the zoom applied by the setter", () => {
+			// The setter clamps further than the config allows
+			setZoom = mock(() => {
+				currentZoom = 1;
+			});
+			createWheelZoomHandler(element, getZoom, setZoom, config, undefined, false, anchor);
+
+			element.dispatchEvent(createWheelEvent(-100, { clientX: 150, clientY: 100 }));
+
+			expect(position).toEqual({ x: 0, y: 0 });
+		});
+
+		it("does not move when the zoom is unchanged", () => {
+			config = { min: 0.5, max: 1 };
+			createWheelZoomHandler(element, getZoom, setZoom, config, undefined, false, anchor);
+
+			element.dispatchEvent(createWheelEvent(-100, { clientX: 150, clientY: 100 }));
+
+			expect(anchor.setPosition).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("proportional zoom", () => {
+		it("zooms by the same factor at any zoom level", () => {
+			currentZoom = 2;
+			createWheelZoomHandler(element, getZoom, setZoom, config);
+
+			element.dispatchEvent(createWheelEvent(-100));
+
+			expect(currentZoom).toBeCloseTo(2 * Math.exp(0.2), 5);
+		});
+
+		it("scales with the scroll distance", () => {
+			createWheelZoomHandler(element, getZoom, setZoom, config);
+
+			element.dispatchEvent(createWheelEvent(-10)); // Trackpad scroll
+
+			expect(currentZoom).toBeCloseTo(Math.exp(0.02), 5);
+		});
+
+		it("uses the configured wheel sensitivity", () => {
+			config = { min: 0.5, max: 3, wheelSensitivity: 0.001 };
+			createWheelZoomHandler(element, getZoom, setZoom, config);
+
+			element.dispatchEvent(createWheelEvent(-100));
+
+			expect(currentZoom).toBeCloseTo(Math.exp(0.1), 5);
+		});
+
+		it("zooms trackpad pinch gestures with the pinch sensitivity", () => {
+			config = { min: 0.5, max: 3, pinchSensitivity: 0.02 };
+			createWheelZoomHandler(element, getZoom, setZoom, config);
+
+			element.dispatchEvent(createWheelEvent(-5.5, { ctrlKey: true }));
+
+			expect(currentZoom).toBeCloseTo(Math.exp(0.11), 5);
+		});
+	});
+
+	describe("getWheelZoomFactor", () => {
+		const wheel = (deltaY: number, deltaMode = 0, ctrlKey = false) => ({
+			deltaY,
+			deltaMode,
+			ctrlKey,
+		});
+
+		it("converts line and page deltas to pixels", () => {
+			// 3 lines of 16px
+			expect(getWheelZoomFactor(wheel(3, 1), {})).toBeCloseTo(
+				getWheelZoomFactor(wheel(48), {}),
+				10,
+			);
+			// A page is 800px
+			expect(getWheelZoomFactor(wheel(0.1, 2), {})).toBeCloseTo(
+				getWheelZoomFactor(wheel(80), {}),
+				10,
+			);
+		});
+
+		it("cancels out for opposite deltas", () => {
+			const zoomIn = getWheelZoomFactor(wheel(-40), {});
+			const zoomOut = getWheelZoomFactor(wheel(40), {});
+
+			expect(zoomIn).toBeGreaterThan(1);
+			expect(zoomIn * zoomOut).toBeCloseTo(1, 10);
+		});
+
+		it("uses the pinch sensitivity for fractional ctrl wheel events", () => {
+			// Trackpad pinches report fractional deltas
+			expect(getWheelZoomFactor(wheel(-10.5, 0, true), {})).toBeCloseTo(
+				Math.exp(0.105),
+				10,
+			);
+			expect(
+				getWheelZoomFactor(wheel(-10.5, 0, true), { pinchSensitivity: 0.005 }),
+			).toBeCloseTo(Math.exp(0.0525), 10);
+		});
+
+		it("uses the wheel sensitivity for mouse wheels with ctrl held", () => {
+			expect(getWheelZoomFactor(wheel(100, 0, true), {})).toBeCloseTo(
+				Math.exp(-0.2),
+				10,
+			);
+			expect(getWheelZoomFactor(wheel(3, 1, true), {})).toBeCloseTo(
+				Math.exp(-0.096),
+				10,
+			);
+		});
+
+		it("limits a single event to doubling or halving", () => {
+			expect(getWheelZoomFactor(wheel(-5000), {})).toBe(2);
+			expect(getWheelZoomFactor(wheel(5, 2), {})).toBe(0.5);
+		});
+	});
+
+	describe("calculateAnchoredPosition", () => {
+		it("keeps the origin fixed", () => {
+			const origin = { x: 10, y: 20 };
+			expect(calculateAnchoredPosition(origin, origin, 2)).toEqual(origin);
+		});
+
+		it("scales the distance from the origin by the ratio", () => {
+			const origin = { x: 50, y: -20 };
+			expect(calculateAnchoredPosition({ x: 0, y: 0 }, origin, 2)).toEqual({ x: -50, y: 20 });
+			expect(calculateAnchoredPosition({ x: 0, y: 0 }, origin, 0.5)).toEqual({ x: 25, y: -10 });
+		});
+	});
+
 	describe("cleanup", () => {
 		it("removes wheel event listener", () => {
 			const onChange = mock();
@@ -240,7 +402,7 @@ describe("Wheel Zoom Handler", () => {
 			config = { min: 1, max: 1.05 };
 			createWheelZoomHandler(element, getZoom, setZoom, config);
 
-			element.dispatchEvent(createWheelEvent(-100)); // Try to zoom in by 0.1
+			element.dispatchEvent(createWheelEvent(-100)); // Try to zoom in by ~22%
 
 			// Should be clamped to max (1.05)
 			expect(setZoom).toHaveBeenCalledWith(1.05);
@@ -251,8 +413,8 @@ describe("Wheel Zoom Handler", () => {
 
 			element.dispatchEvent(createWheelEvent(10000)); // Large scroll down
 
-			// Should still only decrease by 0.1
-			expect(setZoom).toHaveBeenCalledWith(0.9);
+			// A single event at most halves the zoom
+			expect(setZoom).toHaveBeenCalledWith(0.5);
 		});
 	});
 });
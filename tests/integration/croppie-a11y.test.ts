@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from "bun:test";
+import { Croppie } from "../../src/Croppie.ts";
+import type { CroppieOptions } from "../../src/types.ts";
+import { installImageMock } from "../fixtures/mock-helpers.ts";
+import { SMALL_PNG } from "../fixtures/test-image-data-url.ts";
+
+describe("Croppie accessibility", () => {
+	let container: HTMLDivElement;
+	let croppie: Croppie;
+	let cleanupImageMock: () => void;
+
+	beforeEach(() => {
+		// 400x400 image
+		cleanupImageMock = installImageMock({ width: 400, height: 400 });
+		container = document.createElement("div");
+		document.body.appendChild(container);
+	});
+
+	afterEach(() => {
+		jest.useRealTimers();
+		croppie?.destroy();
+		container.remove();
+		cleanupImageMock();
+	});
+
+	const createCroppie = (options: Partial<CroppieOptions> = {}) => {
+		croppie = new Croppie(container, {
+			viewport: { width: 100, height: 100, type: "square" },
+			boundary: { width: 200, height: 200 },
+			...options,
+		});
+		return croppie;
+	};
+
+	const query = <T extends HTMLElement>(selector: string) =>
+		container.querySelector(selector) as T;
+
+	describe("labels", () => {
+		it("labels the boundary and describes the keyboard controls", () => {
+			createCroppie();
+
+			const boundary = query(".cr-boundary");
+			expect(boundary.getAttribute("role")).toBe("application");
+			expect(boundary.getAttribute("aria-label")).toBe("Image cropper");
+
+			const descriptionId = boundary.getAttribute("aria-describedby");
+			const description = query(`#${descriptionId}`);
+			expect(description.textContent).toContain("arrow keys");
+		});
+
+		it("omits the keyboard description when keyboard is disabled", () => {
+			createCroppie({ keyboard: false });
+
+			expect(query(".cr-boundary").hasAttribute("aria-describedby")).toBe(
+				false,
+			);
+			expect(query(".cr-description")).toBeNull();
+		});
+
+		it("names the sliders and speaks their values", async () => {
+			createCroppie({ straighten: true });
+			await croppie.bind({ url: SMALL_PNG, zoom: 1.5 });
+			croppie.setAngle(-2.5);
+
+			const zoomSlider = query<HTMLInputElement>(".cr-slider");
+			expect(zoomSlider.getAttribute("aria-label")).toBe("Zoom");
+			expect(zoomSlider.getAttribute("aria-valuetext")).toBe("150%");
+
+			const straightenSlider = query<HTMLInputElement>(".cr-straighten-slider");
+			expect(straightenSlider.getAttribute("aria-label")).toBe("Straighten");
+			expect(straightenSlider.getAttribute("aria-valuetext")).toBe(
+				"-2.5 degrees",
+			);
+		});
+
+		it("uses localized labels", async () => {
+			createCroppie({
+				labels: {
+					boundary: "Bildzuschnitt",
+					image: "Zuzuschneidendes Bild",
+					zoomSlider: "Vergrößerung",
+					zoomValue: "{zoom} Prozent",
+				},
+			});
+			await croppie.bind({ url: SMALL_PNG, zoom: 2 });
+
+			expect(query(".cr-boundary").getAttribute("aria-label")).toBe(
+				"Bildzuschnitt",
+			);
+			expect(query<HTMLImageElement>(".cr-image").alt).toBe(
+				"Zuzuschneidendes Bild",
+			);
+			const slider = query<HTMLInputElement>(".cr-slider");
+			expect(slider.getAttribute("aria-label")).toBe("Vergrößerung");
+			expect(slider.getAttribute("aria-valuetext")).toBe("200 Prozent");
+		});
+	});
+
+	describe("live region", () => {
+		const getAnnouncement = () => query(".cr-live-region").textContent;
+
+		it("is a polite status region", () => {
+			createCroppie();
+
+			const region = query(".cr-live-region");
+			expect(region.getAttribute("role")).toBe("status");
+			expect(region.getAttribute("aria-live")).toBe("polite");
+		});
+
+		it("announces zoom changes after the debounce delay", async () => {
+			createCroppie();
+			await croppie.bind({ url: SMALL_PNG, zoom: 1 });
+			jest.useFakeTimers();
+
+			croppie.setZoom(1.2);
+			croppie.setZoom(1.5);
+			expect(getAnnouncement()).toBe("");
+
+			jest.advanceTimersByTime(500);
+			expect(getAnnouncement()).toBe("Zoom 150%.");
+		});
+
+		it("announces crop position changes", async () => {
+			createCroppie();
+			await croppie.bind({ url: SMALL_PNG, zoom: 1 });
+			jest.useFakeTimers();
+
+			croppie.setPoints([50, 150, 150, 250]);
+			jest.advanceTimersByTime(500);
+
+			expect(getAnnouncement()).toBe("Crop centered at 25% across, 50% down.");
+		});
+
+		it("uses localized announcements", async () => {
+			createCroppie({
+				labels: {
+					zoomAnnouncement: "Zoom: {zoom} %",
+					positionAnnouncement: "Position {x} %, {y} %",
+				},
+			});
+			await croppie.bind({ url: SMALL_PNG, zoom: 1 });
+			jest.useFakeTimers();
+
+			croppie.setData({ points: [50, 150, 150, 250], zoom: 2 });
+			jest.advanceTimersByTime(500);
+
+			expect(getAnnouncement()).toBe("Zoom: 200 % Position 25 %, 50 %");
+		});
+
+		it("does not announce the state after bind", async () => {
+			createCroppie();
+			await croppie.bind({ url: SMALL_PNG, zoom: 1 });
+			jest.useFakeTimers();
+
+			jest.advanceTimersByTime(1000);
+
+			expect(getAnnouncement()).toBe("");
+		});
+	});
+});
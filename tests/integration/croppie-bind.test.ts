@@ -66,30 +66,25 @@ describe.skip("Croppie bind", () => {
 		});
 
 		describe("points option", () => {
-			let originalWarn: typeof console.warn;
-
-			beforeEach(() => {
-				originalWarn = console.warn;
-			});
-
-			afterEach(() => {
-				console.warn = originalWarn;
-			});
-
-			it("handles points option (with warning)", async () => {
+			it("applies points without warning", async () => {
 				const warn = mock();
+				const originalWarn = console.warn;
 				console.warn = warn;
 
 				croppie = new Croppie(container, {
 					viewport: { width: 100, height: 100, type: "square" },
 				});
 
-				await croppie.bind({
-					url: TINY_PNG,
-					points: [0, 0, 100, 100],
-				});
+				try {
+					await croppie.bind({
+						url: TINY_PNG,
+						points: [0, 0, 100, 100],
+					});
+				} finally {
+					console.warn = originalWarn;
+				}
 
-				expect(warn).toHaveBeenCalled();
+				expect(warn).not.toHaveBeenCalled();
 			});
 		});
 	});
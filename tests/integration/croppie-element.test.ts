@@ -0,0 +1,199 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from "bun:test";
+import { CroppieElement } from "../../src/element.ts";
+import {
+	installCanvasContextMock,
+	restoreCanvasMocks,
+	setupCanvasMocks,
+} from "../canvas/mocks.ts";
+import { installImageMock } from "../fixtures/mock-helpers.ts";
+import { SMALL_PNG } from "../fixtures/test-image-data-url.ts";
+
+describe("<croppie-cropper>", () => {
+	let element: CroppieElement;
+	let cleanupImageMock: () => void;
+	let contextMock: ReturnType<typeof installCanvasContextMock>;
+
+	beforeEach(() => {
+		cleanupImageMock = installImageMock({ width: 400, height: 400 });
+		contextMock = installCanvasContextMock();
+		setupCanvasMocks();
+		element = document.createElement("croppie-cropper");
+	});
+
+	afterEach(() => {
+		element.remove();
+		restoreCanvasMocks();
+		contextMock.restore();
+		cleanupImageMock();
+	});
+
+	const connect = (attributes: Record<string, string> = {}) => {
+		for (const [name, value] of Object.entries(attributes)) {
+			element.setAttribute(name, value);
+		}
+		document.body.appendChild(element);
+	};
+
+	const waitForEvent = <T>(name: string) =>
+		new Promise<CustomEvent<T>>((resolve) =>
+			element.addEventListener(
+				name,
+				(event) => resolve(event as CustomEvent<T>),
+				{
+					once: true,
+				},
+			),
+		);
+
+	it("is defined as a custom element", () => {
+		expect(element).toBeInstanceOf(CroppieElement);
+		expect(customElements.get("croppie-cropper")).toBe(CroppieElement);
+	});
+
+	it("maps attributes onto the options", () => {
+		connect({
+			"viewport-width": "150",
+			"viewport-height": "80",
+			"viewport-type": "circle",
+			"boundary-width": "300",
+			"show-zoomer": "false",
+		});
+
+		const viewport = element.querySelector(".cr-viewport") as HTMLElement;
+		expect(viewport.style.width).toBe("150px");
+		expect(viewport.style.height).toBe("80px");
+		expect(viewport.classList.contains("cr-vp-circle")).toBe(true);
+
+		const boundary = element.querySelector(".cr-boundary") as HTMLElement;
+		expect(boundary.style.width).toBe("300px");
+		expect(boundary.style.height).toBe("180px");
+		expect(element.querySelector(".cr-slider")).toBeNull();
+	});
+
+	it("recreates the cropper when an option attribute changes", () => {
+		connect({ "viewport-width": "100" });
+		const first = element.croppie;
+
+		element.setAttribute("viewport-width", "120");
+
+		expect(element.croppie).not.toBe(first);
+		expect(element.querySelectorAll(".croppie-container")).toHaveLength(1);
+		expect(
+			(element.querySelector(".cr-viewport") as HTMLElement).style.width,
+		).toBe("120px");
+	});
+
+	it("re-dispatches update and zoom as CustomEvents", async () => {
+		connect({ src: SMALL_PNG });
+		await element.result({ type: "canvas" });
+
+		const update = waitForEvent<{ zoom: number }>("update");
+		const zoom = waitForEvent<{ zoom: number; previousZoom: number }>("zoom");
+		element.croppie?.setZoom(1.5);
+		const slider = element.querySelector(".cr-slider") as HTMLInputElement;
+		slider.value = "2";
+		slider.dispatchEvent(new Event("input"));
+
+		expect((await update).detail.zoom).toBe(1.5);
+		expect((await zoom).detail).toEqual({ zoom: 2, previousZoom: 1.5 });
+	});
+
+	it("waits for the bound image in result()", async () => {
+		connect({ "viewport-width": "100" });
+		element.src = SMALL_PNG;
+
+		const canvas = (await element.result({
+			type: "canvas",
+		})) as HTMLCanvasElement;
+
+		expect(canvas.width).toBe(100);
+		expect(element.croppie?.get().zoom).toBe(0.25);
+	});
+
+	it("dispatches an error event when the image fails to load", async () => {
+		const error = waitForEvent<Error>("error");
+		connect({ src: "missing.png" });
+
+		expect((await error).detail).toBeInstanceOf(Error);
+	});
+
+	it("destroys the cropper when removed", () => {
+		connect();
+		element.remove();
+
+		expect(element.croppie).toBeNull();
+		expect(element.children).toHaveLength(0);
+	});
+	describe("form association", () => {
+		let setFormValue: ReturnType<typeof jest.fn>;
+
+		beforeEach(() => {
+			// happy-dom has no ElementInternals
+			setFormValue = jest.fn();
+			Object.assign(HTMLElement.prototype, {
+				attachInternals: () => ({ form: null, setFormValue }),
+			});
+			element = document.createElement("croppie-cropper");
+		});
+
+		afterEach(() => {
+			Reflect.deleteProperty(HTMLElement.prototype, "attachInternals");
+		});
+
+		const lastFormValue = () => setFormValue.mock.calls.at(-1) ?? [];
+
+		it("submits the crop data as JSON", async () => {
+			connect({ name: "avatar", src: SMALL_PNG });
+			expect(lastFormValue()).toEqual([null]);
+
+			await element.result({ type: "canvas" });
+			expect(JSON.parse(lastFormValue()[0])).toEqual(element.croppie?.get());
+
+			element.croppie?.setZoom(1);
+			expect(JSON.parse(lastFormValue()[0]).zoom).toBe(1);
+			expect(element.value).toBe(lastFormValue()[0]);
+		});
+
+		it("applies the value attribute after binding and on reset", async () => {
+			connect({
+				src: SMALL_PNG,
+				value: JSON.stringify({ points: [100, 100, 200, 200], zoom: 1 }),
+			});
+			await element.result({ type: "canvas" });
+			expect(element.croppie?.get().points).toEqual({
+				topLeftX: 100,
+				topLeftY: 100,
+				bottomRightX: 200,
+				bottomRightY: 200,
+			});
+
+			element.croppie?.setZoom(2);
+			element.formResetCallback();
+
+			expect(element.croppie?.zoom).toBe(1);
+			expect(JSON.parse(lastFormValue()[0]).zoom).toBe(1);
+		});
+
+		it("restores the crop data saved by the browser", async () => {
+			const update = waitForEvent("update");
+			connect({ src: SMALL_PNG });
+			element.formStateRestoreCallback(
+				JSON.stringify({ points: [0, 0, 200, 200], angle: 5 }),
+			);
+			await update;
+
+			expect(element.croppie?.angle).toBe(5);
+		});
+
+		it("submits the cropped image as a file", async () => {
+			connect({ src: SMALL_PNG, "value-type": "file", format: "jpeg" });
+			await element.result({ type: "canvas" });
+			await new Promise((resolve) => setTimeout(resolve, 400));
+
+			const [file, state] = lastFormValue();
+			expect(file).toBeInstanceOf(File);
+			expect(file.type).toBe("image/jpeg");
+			expect(state).toBe(element.value);
+		});
+	});
+});
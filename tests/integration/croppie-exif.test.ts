@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { Croppie } from "../../src/Croppie.ts";
+import { createExifJpeg, toJpegDataUrl } from "../fixtures/exif-jpeg.ts";
+import { installImageMock } from "../fixtures/mock-helpers.ts";
+
+describe("Croppie EXIF orientation", () => {
+	let container: HTMLDivElement;
+	let croppie: Croppie;
+	let cleanupImageMock: () => void;
+
+	beforeEach(() => {
+		// Stored landscape, 400x200
+		cleanupImageMock = installImageMock({ width: 400, height: 200 });
+		container = document.createElement("div");
+		document.body.appendChild(container);
+	});
+
+	afterEach(() => {
+		croppie?.destroy();
+		container.remove();
+		cleanupImageMock();
+	});
+
+	const create = (enableExif: boolean) => {
+		croppie = new Croppie(container, {
+			viewport: { width: 100, height: 100, type: "square" },
+			boundary: { width: 200, height: 200 },
+			enableExif,
+		});
+	};
+
+	const preview = () =>
+		container.querySelector(".cr-image") as HTMLImageElement;
+
+	it("rotates images tagged with orientation 6", async () => {
+		create(true);
+		await croppie.bind(toJpegDataUrl(createExifJpeg(6)));
+
+		const data = croppie.get();
+		expect(data.orientation).toBe(90);
+		// Upright the image is 200x400
+		expect(data.points.bottomRightX).toBeLessThanOrEqual(200);
+		expect(data.points.bottomRightY).toBeGreaterThan(200);
+		expect(preview().style.transform).toContain("rotate(90deg)");
+	});
+
+	it("mirrors images tagged with orientation 2", async () => {
+		create(true);
+		await croppie.bind(toJpegDataUrl(createExifJpeg(2)));
+
+		expect(croppie.get().orientation).toBe(0);
+		expect(preview().style.transform).toContain("scale(-1, 1)");
+	});
+
+	it("reads orientation from bound files", async () => {
+		create(true);
+		const file = new Blob([createExifJpeg(8)], { type: "image/jpeg" });
+
+		await croppie.bindFile(file);
+
+		expect(croppie.get().orientation).toBe(270);
+	});
+
+	it("ignores EXIF data unless enableExif is set", async () => {
+		create(false);
+		await croppie.bind(toJpegDataUrl(createExifJpeg(6)));
+
+		expect(croppie.get().orientation).toBe(0);
+	});
+
+	it("applies BindOptions.orientation without enableExif", async () => {
+		create(false);
+		await croppie.bind({
+			url: toJpegDataUrl(createExifJpeg(1)),
+			orientation: 3,
+		});
+
+		expect(croppie.get().orientation).toBe(180);
+	});
+
+	it("lets BindOptions.orientation override the EXIF tag", async () => {
+		create(true);
+		await croppie.bind({
+			url: toJpegDataUrl(createExifJpeg(6)),
+			orientation: 1,
+		});
+
+		expect(croppie.get().orientation).toBe(0);
+	});
+
+	it("fits the upright image when calculating the initial zoom", async () => {
+		croppie = new Croppie(container, {
+			viewport: { width: 200, height: 100, type: "square" },
+			boundary: { width: 300, height: 500 },
+			enableExif: true,
+		});
+		await croppie.bind(toJpegDataUrl(createExifJpeg(6)));
+
+		// Upright 200x400 needs zoom 1 to cover a 200x100 viewport
+		expect(croppie.zoom).toBe(1);
+	});
+
+	it("restores the EXIF orientation on reset()", async () => {
+		create(true);
+		await croppie.bind(toJpegDataUrl(createExifJpeg(7)));
+
+		croppie.rotate(90);
+		croppie.reset();
+
+		expect(croppie.get().orientation).toBe(90);
+		expect(preview().style.transform).toContain("scale(-1, 1)");
+	});
+});
@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+import { Croppie } from "../../src/Croppie.ts";
+import { installImageMock } from "../fixtures/mock-helpers.ts";
+import { SMALL_PNG } from "../fixtures/test-image-data-url.ts";
+
+describe("Croppie flip", () => {
+	let container: HTMLDivElement;
+	let croppie: Croppie;
+	let cleanupImageMock: () => void;
+
+	beforeEach(() => {
+		// 400x200 landscape image
+		cleanupImageMock = installImageMock({ width: 400, height: 200 });
+		container = document.createElement("div");
+		document.body.appendChild(container);
+	});
+
+	afterEach(() => {
+		croppie?.destroy();
+		container.remove();
+		cleanupImageMock();
+	});
+
+	const createCroppie = () =>
+		new Croppie(container, {
+			viewport: { width: 100, height: 100, type: "square" },
+			boundary: { width: 200, height: 200 },
+		});
+
+	const getPreviewTransform = () =>
+		(container.querySelector(".cr-image") as HTMLImageElement).style.transform;
+
+	it("reports no flip after bind", async () => {
+		croppie = createCroppie();
+		await croppie.bind(SMALL_PNG);
+
+		expect(croppie.get().flip).toEqual({ horizontal: false, vertical: false });
+		expect(getPreviewTransform()).not.toContain("scale(-1");
+	});
+
+	it("toggles each axis and emits update", async () => {
+		croppie = createCroppie();
+		await croppie.bind(SMALL_PNG);
+		const handler = mock(() => {});
+		croppie.on("update", handler);
+
+		croppie.flip("horizontal");
+		expect(croppie.get().flip).toEqual({ horizontal: true, vertical: false });
+		expect(getPreviewTransform()).toContain("scale(-1, 1)");
+
+		croppie.flip("vertical");
+		expect(croppie.get().flip).toEqual({ horizontal: true, vertical: true });
+		expect(getPreviewTransform()).toContain("scale(-1, -1)");
+
+		croppie.flip("horizontal");
+		croppie.flip("vertical");
+		expect(croppie.get().flip).toEqual({ horizontal: false, vertical: false });
+		expect(handler).toHaveBeenCalledTimes(4);
+	});
+
+	it("mirrors the crop along with the image", async () => {
+		croppie = createCroppie();
+		await croppie.bind(SMALL_PNG);
+		croppie.setPoints([0, 0, 200, 200]);
+
+		croppie.flip("horizontal");
+
+		expect(croppie.get().points).toEqual({
+			topLeftX: 200,
+			topLeftY: 0,
+			bottomRightX: 400,
+			bottomRightY: 200,
+		});
+	});
+
+	it("mirrors across the screen axis on a quarter-turned image", async () => {
+		croppie = createCroppie();
+		await croppie.bind(SMALL_PNG);
+		croppie.rotate(90);
+
+		croppie.flip("horizontal");
+
+		// The unrotated image is mirrored top to bottom, which reads as left to right on screen
+		expect(croppie.get().flip).toEqual({ horizontal: false, vertical: true });
+		expect(croppie.get().orientation).toBe(90);
+	});
+
+	it("negates the straighten angle", async () => {
+		croppie = createCroppie();
+		await croppie.bind(SMALL_PNG);
+		croppie.setAngle(10);
+
+		croppie.flip("vertical");
+
+		expect(croppie.get().angle).toBe(-10);
+	});
+
+	it("is restored by setData and cleared by reset", async () => {
+		croppie = createCroppie();
+		await croppie.bind(SMALL_PNG);
+		croppie.flip("horizontal");
+		const saved = croppie.get();
+
+		croppie.reset();
+		expect(croppie.get().flip).toEqual({ horizontal: false, vertical: false });
+
+		croppie.setData(saved);
+		expect(croppie.get().flip).toEqual({ horizontal: true, vertical: false });
+		expect(croppie.get().points).toEqual(saved.points);
+	});
+
+	it("does nothing without a bound image", () => {
+		croppie = createCroppie();
+
+		croppie.flip("horizontal");
+
+		expect(croppie.get().flip).toEqual({ horizontal: false, vertical: false });
+	});
+});
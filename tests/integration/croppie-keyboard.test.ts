@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+import { Croppie } from "../../src/Croppie.ts";
+import type { CroppieOptions } from "../../src/types.ts";
+import { installImageMock } from "../fixtures/mock-helpers.ts";
+import { SMALL_PNG } from "../fixtures/test-image-data-url.ts";
+
+describe("Croppie keyboard", () => {
+	let container: HTMLDivElement;
+	let croppie: Croppie;
+	let cleanupImageMock: () => void;
+
+	beforeEach(() => {
+		// 400x400 image, covered at zoom 0.25
+		cleanupImageMock = installImageMock({ width: 400, height: 400 });
+		container = document.createElement("div");
+		document.body.appendChild(container);
+	});
+
+	afterEach(() => {
+		croppie?.destroy();
+		container.remove();
+		cleanupImageMock();
+	});
+
+	const createCroppie = async (options: Partial<CroppieOptions> = {}) => {
+		croppie = new Croppie(container, {
+			viewport: { width: 100, height: 100, type: "square" },
+			boundary: { width: 200, height: 200 },
+			...options,
+		});
+		await croppie.bind({ url: SMALL_PNG, zoom: 1 });
+	};
+
+	const getBoundary = () =>
+		container.querySelector(".cr-boundary") as HTMLElement;
+
+	const pressKey = (key: string, options: KeyboardEventInit = {}) => {
+		getBoundary().dispatchEvent(
+			new KeyboardEvent("keydown", {
+				key,
+				bubbles: true,
+				cancelable: true,
+				...options,
+			}),
+		);
+	};
+
+	const getCenter = () => {
+		const { points } = croppie.get();
+		return {
+			x: (points.topLeftX + points.bottomRightX) / 2,
+			y: (points.topLeftY + points.bottomRightY) / 2,
+		};
+	};
+
+	it("makes the boundary focusable", async () => {
+		await createCroppie();
+
+		expect(getBoundary().tabIndex).toBe(0);
+	});
+
+	it("pans the image with the arrow keys", async () => {
+		await createCroppie();
+		const handler = mock(() => {});
+		croppie.on("update", handler);
+
+		// Moving the image right moves the crop left over the image
+		pressKey("ArrowRight");
+		expect(getCenter()).toEqual({ x: 190, y: 200 });
+
+		pressKey("ArrowUp", { shiftKey: true });
+		expect(getCenter()).toEqual({ x: 190, y: 250 });
+		expect(handler).toHaveBeenCalledTimes(2);
+	});
+
+	it("uses configured pan steps", async () => {
+		await createCroppie({ keyboard: { panStep: 2 } });
+
+		pressKey("ArrowLeft");
+
+		expect(getCenter()).toEqual({ x: 202, y: 200 });
+	});
+
+	it("zooms around the viewport center and emits zoom", async () => {
+		await createCroppie();
+		pressKey("ArrowRight");
+		const handler = mock(() => {});
+		croppie.on("zoom", handler);
+
+		pressKey("+");
+
+		expect(croppie.zoom).toBeCloseTo(1.1);
+		expect(getCenter().x).toBeCloseTo(190);
+		expect(getCenter().y).toBeCloseTo(200);
+		expect(handler).toHaveBeenCalledWith({
+			zoom: croppie.zoom,
+			previousZoom: 1,
+		});
+
+		pressKey("-");
+		expect(croppie.zoom).toBeCloseTo(1);
+	});
+
+	it("rotates with R", async () => {
+		await createCroppie();
+
+		pressKey("r");
+		expect(croppie.get().orientation).toBe(90);
+
+		pressKey("R", { shiftKey: true });
+		expect(croppie.get().orientation).toBe(0);
+	});
+
+	it("can be disabled", async () => {
+		await createCroppie({ keyboard: false });
+
+		pressKey("ArrowRight");
+
+		expect(getBoundary().hasAttribute("tabindex")).toBe(false);
+		expect(getCenter()).toEqual({ x: 200, y: 200 });
+	});
+});
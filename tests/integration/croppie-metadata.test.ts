@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from "bun:test";
+import { Croppie } from "../../src/Croppie.ts";
+import {
+	readJpegSegments,
+	writeJpeg,
+	writePng,
+} from "../../src/canvas/chunks.ts";
+import { readImageMetadata } from "../../src/canvas/metadata.ts";
+import { installCanvasContextMock } from "../canvas/mocks.ts";
+import { installImageMock } from "../fixtures/mock-helpers.ts";
+
+const ascii = (text: string) =>
+	Uint8Array.from(text, (char) => char.charCodeAt(0));
+
+const SCAN = new Uint8Array([0xff, 0xda, 0, 2, 0xff, 0xd9]);
+
+/**
+ * Big-endian EXIF with Make "Canon" and Orientation 6 in IFD0
+ */
+const EXIF = new Uint8Array([
+	...[0x4d, 0x4d, 0, 42, 0, 0, 0, 8],
+	...[0, 2],
+	...[0x01, 0x0f, 0, 2, 0, 0, 0, 6, 0, 0, 0, 38],
+	...[0x01, 0x12, 0, 3, 0, 0, 0, 1, 0, 6, 0, 0],
+	...[0, 0, 0, 0],
+	...ascii("Canon\0"),
+]);
+
+const ICC = ascii("icc profile bytes");
+
+/**
+ * A photo with an EXIF segment and an ICC profile
+ */
+const createSourceJpeg = () =>
+	new Blob(
+		[
+			writeJpeg(
+				[
+					{
+						type: 0xffe1,
+						data: new Uint8Array([...ascii("Exif\0\0"), ...EXIF]),
+					},
+					{
+						type: 0xffe2,
+						data: new Uint8Array([...ascii("ICC_PROFILE\0"), 1, 1, ...ICC]),
+					},
+				],
+				SCAN,
+			) as BlobPart,
+		],
+		{ type: "image/jpeg" },
+	);
+
+describe("Croppie result metadata", () => {
+	let container: HTMLDivElement;
+	let croppie: Croppie;
+	let cleanupImageMock: () => void;
+	let contextMock: ReturnType<typeof installCanvasContextMock>;
+	let originalToBlob: typeof HTMLCanvasElement.prototype.toBlob;
+
+	beforeEach(async () => {
+		cleanupImageMock = installImageMock({ width: 400, height: 400 });
+		contextMock = installCanvasContextMock();
+
+		// Encode like a browser: a bare JPEG or PNG without metadata
+		originalToBlob = HTMLCanvasElement.prototype.toBlob;
+		HTMLCanvasElement.prototype.toBlob = (callback, type = "image/png") => {
+			const bytes =
+				type === "image/jpeg"
+					? writeJpeg([], SCAN)
+					: writePng([
+							{ type: "IHDR", data: new Uint8Array(13) },
+							{ type: "IEND", data: new Uint8Array(0) },
+						]);
+			queueMicrotask(() => callback(new Blob([bytes as BlobPart], { type })));
+		};
+
+		container = document.createElement("div");
+		document.body.appendChild(container);
+		croppie = new Croppie(container, {
+			viewport: { width: 100, height: 100, type: "square" },
+			boundary: { width: 200, height: 200 },
+		});
+		await croppie.bindFile(createSourceJpeg());
+	});
+
+	afterEach(() => {
+		croppie?.destroy();
+		container.remove();
+		HTMLCanvasElement.prototype.toBlob = originalToBlob;
+		contextMock.restore();
+		cleanupImageMock();
+	});
+
+	const resultBytes = async (blob: Blob) =>
+		new Uint8Array(await blob.arrayBuffer());
+
+	it("writes the DPI, source profile and selected EXIF fields into a JPEG", async () => {
+		const blob = (await croppie.result({
+			type: "blob",
+			format: "jpeg",
+			metadata: { dpi: 300, icc: true, exif: ["Make"] },
+		})) as Blob;
+
+		const bytes = await resultBytes(blob);
+		const { segments } = readJpegSegments(bytes);
+		expect(segments.map((segment) => segment.type)).toEqual([
+			0xffe0, 0xffe1, 0xffe2,
+		]);
+		const jfif = segments[0]?.data as Uint8Array;
+		expect(new DataView(jfif.buffer, jfif.byteOffset).getUint16(8)).toBe(300);
+
+		const metadata = await readImageMetadata(bytes);
+		expect(metadata.icc).toEqual(ICC);
+		expect(String.fromCharCode(...(metadata.exif ?? []))).toContain("Canon");
+		// Only Make is kept, so IFD0 has a single entry
+		expect(metadata.exif?.[9]).toBe(1);
+	});
+
+	it("embeds a given ICC profile into a PNG", async () => {
+		const profile = ascii("custom profile");
+
+		const blob = (await croppie.result({
+			type: "blob",
+			format: "png",
+			metadata: { icc: profile },
+		})) as Blob;
+
+		expect((await readImageMetadata(await resultBytes(blob))).icc).toEqual(
+			profile,
+		);
+	});
+
+	it("reports the size with metadata", async () => {
+		const handler = jest.fn();
+		croppie.on("result", handler);
+
+		const base64 = (await croppie.result({
+			type: "base64",
+			format: "jpeg",
+			metadata: { dpi: 72 },
+		})) as string;
+
+		expect(base64).toStartWith("data:image/jpeg;base64,");
+		expect(handler.mock.calls[0]?.[0].bytes).toBe(SCAN.length + 2 + 18);
+	});
+
+	it("warns for formats that cannot carry metadata", async () => {
+		const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+		await croppie.result({
+			type: "blob",
+			format: "webp",
+			metadata: { dpi: 300 },
+		});
+
+		expect(warn).toHaveBeenCalledWith(
+			"[@bayinformatics/croppie] Metadata can only be written to JPEG and PNG results, not webp.",
+		);
+		warn.mockRestore();
+	});
+});
@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { Croppie } from "../../src/Croppie.ts";
+import { installImageMock } from "../fixtures/mock-helpers.ts";
+import { SMALL_PNG } from "../fixtures/test-image-data-url.ts";
+
+describe("Croppie initial points", () => {
+	let container: HTMLDivElement;
+	let croppie: Croppie;
+	let cleanupImageMock: () => void;
+
+	beforeEach(() => {
+		cleanupImageMock = installImageMock({ width: 800, height: 600 });
+		container = document.createElement("div");
+		document.body.appendChild(container);
+		croppie = new Croppie(container, {
+			viewport: { width: 200, height: 200, type: "square" },
+			boundary: { width: 300, height: 300 },
+		});
+	});
+
+	afterEach(() => {
+		croppie?.destroy();
+		container.remove();
+		cleanupImageMock();
+	});
+
+	it("restores a region from CropPoints", async () => {
+		const points = {
+			topLeftX: 100,
+			topLeftY: 50,
+			bottomRightX: 500,
+			bottomRightY: 450,
+		};
+
+		await croppie.bind({ url: SMALL_PNG, points });
+
+		expect(croppie.zoom).toBe(0.5);
+		expect(croppie.get().points).toEqual(points);
+	});
+
+	it("restores a region from a PointsArray", async () => {
+		await croppie.bind({ url: SMALL_PNG, points: [300, 200, 700, 600] });
+
+		expect(croppie.get().points).toEqual({
+			topLeftX: 300,
+			topLeftY: 200,
+			bottomRightX: 700,
+			bottomRightY: 600,
+		});
+	});
+
+	it("round-trips points from get()", async () => {
+		await croppie.bind({ url: SMALL_PNG, points: [120, 80, 420, 380] });
+		const saved = croppie.get();
+
+		await croppie.bind({ url: SMALL_PNG, points: saved.points });
+		const restored = croppie.get();
+
+		expect(restored.zoom).toBeCloseTo(saved.zoom, 10);
+		expect(restored.points.topLeftX).toBeCloseTo(saved.points.topLeftX, 10);
+		expect(restored.points.topLeftY).toBeCloseTo(saved.points.topLeftY, 10);
+		expect(restored.points.bottomRightX).toBeCloseTo(
+			saved.points.bottomRightX,
+			10,
+		);
+		expect(restored.points.bottomRightY).toBeCloseTo(
+			saved.points.bottomRightY,
+			10,
+		);
+	});
+
+	it("fits the whole region when the aspect ratio differs", async () => {
+		// 400x200 region in a square viewport: zoom fits the width
+		await croppie.bind({ url: SMALL_PNG, points: [200, 200, 600, 400] });
+
+		expect(croppie.zoom).toBe(0.5);
+		expect(croppie.get().points).toEqual({
+			topLeftX: 200,
+			topLeftY: 100,
+			bottomRightX: 600,
+			bottomRightY: 500,
+		});
+	});
+
+	it("keeps the region centered when an explicit zoom is given", async () => {
+		await croppie.bind({
+			url: SMALL_PNG,
+			points: [200, 100, 600, 500],
+			zoom: 1,
+		});
+
+		expect(croppie.zoom).toBe(1);
+		expect(croppie.get().points).toEqual({
+			topLeftX: 300,
+			topLeftY: 200,
+			bottomRightX: 500,
+			bottomRightY: 400,
+		});
+	});
+
+	it("constrains regions outside the image", async () => {
+		await croppie.bind({ url: SMALL_PNG, points: [700, 500, 900, 700] });
+
+		expect(croppie.get().points).toEqual({
+			topLeftX: 600,
+			topLeftY: 400,
+			bottomRightX: 800,
+			bottomRightY: 600,
+		});
+	});
+
+	it("rejects empty regions", async () => {
+		await expect(
+			croppie.bind({ url: SMALL_PNG, points: [100, 100, 100, 300] }),
+		).rejects.toThrow("positive width and height");
+	});
+});
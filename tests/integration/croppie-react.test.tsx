@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from "bun:test";
+import { act } from "react";
+import { type Root, createRoot } from "react-dom/client";
+import { Croppie, type CroppieProps, useCroppie } from "../../src/react.tsx";
+import type { CroppieData } from "../../src/types.ts";
+import {
+	installCanvasContextMock,
+	restoreCanvasMocks,
+	setupCanvasMocks,
+} from "../canvas/mocks.ts";
+import { installImageMock } from "../fixtures/mock-helpers.ts";
+import { SMALL_PNG } from "../fixtures/test-image-data-url.ts";
+
+Object.assign(globalThis, { IS_REACT_ACT_ENVIRONMENT: true });
+
+describe("React <Croppie>", () => {
+	let container: HTMLDivElement;
+	let root: Root;
+	let cleanupImageMock: () => void;
+	let contextMock: ReturnType<typeof installCanvasContextMock>;
+	let controls: ReturnType<typeof useCroppie>;
+
+	const options: CroppieProps["options"] = {
+		viewport: { width: 100, height: 100, type: "square" },
+		boundary: { width: 200, height: 200 },
+	};
+
+	beforeEach(() => {
+		cleanupImageMock = installImageMock({ width: 400, height: 400 });
+		contextMock = installCanvasContextMock();
+		setupCanvasMocks();
+		container = document.createElement("div");
+		document.body.appendChild(container);
+		root = createRoot(container);
+	});
+
+	afterEach(() => {
+		act(() => root.unmount());
+		container.remove();
+		restoreCanvasMocks();
+		contextMock.restore();
+		cleanupImageMock();
+	});
+
+	const Cropper = (props: Partial<CroppieProps>) => {
+		controls = useCroppie();
+		return <Croppie ref={controls.ref} options={options} {...props} />;
+	};
+
+	/**
+	 * Renders, then waits for the image to load and bind
+	 */
+	const render = async (props: Partial<CroppieProps>) => {
+		await act(async () => {
+			root.render(<Cropper {...props} />);
+		});
+		await act(() => new Promise((resolve) => setTimeout(resolve, 10)));
+	};
+
+	it("reports the crop once the image is bound and on changes", async () => {
+		const onChange = jest.fn();
+		await render({ src: SMALL_PNG, onChange });
+
+		expect(onChange).toHaveBeenCalledTimes(1);
+		expect(onChange.mock.calls[0]?.[0].zoom).toBe(0.25);
+
+		act(() => controls.rotate(90));
+		expect(onChange).toHaveBeenCalledTimes(2);
+		expect(onChange.mock.calls[1]?.[0].orientation).toBe(90);
+	});
+
+	it("applies a controlled value", async () => {
+		const value: CroppieData = { points: [100, 100, 200, 200], zoom: 1 };
+		await render({ src: SMALL_PNG, value });
+
+		expect(controls.ref.current?.get().points).toEqual({
+			topLeftX: 100,
+			topLeftY: 100,
+			bottomRightX: 200,
+			bottomRightY: 200,
+		});
+
+		await render({ src: SMALL_PNG, value: { ...value, zoom: 2 } });
+		expect(controls.ref.current?.zoom).toBe(2);
+	});
+
+	it("fits a new image instead of applying the old crop", async () => {
+		let crop: CroppieData | undefined;
+		const onChange = jest.fn((data: CroppieData) => {
+			crop = data;
+		});
+		await render({ src: SMALL_PNG, onChange });
+		act(() => {
+			controls.rotate(90);
+			controls.ref.current?.setZoom(1);
+		});
+
+		await render({
+			src: "https://example.com/next.png",
+			value: crop,
+			onChange,
+		});
+
+		const croppie = controls.ref.current;
+		expect(croppie?.get().orientation).toBe(0);
+		expect(croppie?.zoom).toBe(0.25);
+		expect(onChange.mock.lastCall?.[0]).toEqual(croppie?.get());
+	});
+
+	it("keeps the image and crop when the options change", async () => {
+		await render({ src: SMALL_PNG });
+		const first = controls.ref.current;
+		act(() => first?.setData({ points: [0, 0, 200, 200], angle: 5 }));
+
+		await render({
+			src: SMALL_PNG,
+			options: {
+				...options,
+				viewport: { ...options.viewport, type: "circle" },
+			},
+		});
+
+		const second = controls.ref.current;
+		expect(second).not.toBe(first);
+		expect(second?.angle).toBe(5);
+		expect(second?.zoom).toBeCloseTo(first?.zoom ?? 0);
+		expect(container.querySelectorAll(".croppie-container")).toHaveLength(1);
+	});
+
+	it("ignores a replaced cropper's bind", async () => {
+		const onChange = jest.fn();
+		await act(async () => {
+			root.render(<Cropper src={SMALL_PNG} onChange={onChange} />);
+		});
+
+		// New options before the first image loaded
+		await render({
+			src: SMALL_PNG,
+			onChange,
+			options: { ...options, viewport: { ...options.viewport, width: 150 } },
+		});
+
+		expect(onChange).toHaveBeenCalledTimes(1);
+		expect(onChange.mock.calls[0]?.[0]).toEqual(controls.ref.current?.get());
+	});
+
+	it("does not recreate the cropper for equal inline options", async () => {
+		await render({ src: SMALL_PNG });
+		const first = controls.ref.current;
+
+		await render({ src: SMALL_PNG, options: { ...options } });
+
+		expect(controls.ref.current).toBe(first);
+	});
+
+	it("returns results through useCroppie()", async () => {
+		await render({ src: SMALL_PNG });
+
+		const canvas = (await controls.result({
+			type: "canvas",
+		})) as HTMLCanvasElement;
+
+		expect(canvas.width).toBe(100);
+	});
+
+	it("destroys the cropper on unmount", async () => {
+		await render({ src: SMALL_PNG });
+		act(() => root.render(<div />));
+
+		expect(controls.ref.current).toBeNull();
+		expect(container.querySelector(".croppie-container")).toBeNull();
+	});
+
+	it("reports load errors", async () => {
+		const onError = jest.fn();
+		await render({ src: "missing.png", onError });
+
+		expect(onError).toHaveBeenCalledTimes(1);
+	});
+});
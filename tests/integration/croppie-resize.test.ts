@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+import { Croppie } from "../../src/Croppie.ts";
+import type { CroppieOptions } from "../../src/types.ts";
+import {
+	createPointerEvent,
+	installImageMock,
+} from "../fixtures/mock-helpers.ts";
+import { SMALL_PNG } from "../fixtures/test-image-data-url.ts";
+
+describe("Croppie viewport resize", () => {
+	let container: HTMLDivElement;
+	let croppie: Croppie;
+	let cleanupImageMock: () => void;
+
+	beforeEach(() => {
+		cleanupImageMock = installImageMock({ width: 800, height: 600 });
+		container = document.createElement("div");
+		document.body.appendChild(container);
+	});
+
+	afterEach(() => {
+		croppie?.destroy();
+		container.remove();
+		cleanupImageMock();
+	});
+
+	const create = (enableResize: CroppieOptions["enableResize"]) => {
+		croppie = new Croppie(container, {
+			viewport: { width: 200, height: 200, type: "square" },
+			boundary: { width: 400, height: 400 },
+			enableResize,
+		});
+		for (const handle of container.querySelectorAll<HTMLElement>(
+			".cr-resize-handle",
+		)) {
+			handle.setPointerCapture = mock();
+			handle.releasePointerCapture = mock();
+		}
+	};
+
+	const dragHandle = (direction: string, deltaX: number, deltaY: number) => {
+		const handle = container.querySelector(
+			`.cr-resize-${direction}`,
+		) as HTMLElement;
+		handle.dispatchEvent(
+			createPointerEvent("pointerdown", { clientX: 0, clientY: 0 }),
+		);
+		handle.dispatchEvent(
+			createPointerEvent("pointermove", { clientX: deltaX, clientY: deltaY }),
+		);
+		handle.dispatchEvent(
+			createPointerEvent("pointerup", { clientX: deltaX, clientY: deltaY }),
+		);
+	};
+
+	it("does not add handles by default", () => {
+		create(undefined);
+
+		expect(container.querySelector(".cr-resize-handle")).toBeNull();
+	});
+
+	it("adds handles to the viewport when enabled", () => {
+		create(true);
+
+		const viewport = container.querySelector(".cr-viewport") as HTMLElement;
+		expect(viewport.querySelectorAll(".cr-resize-handle").length).toBe(8);
+	});
+
+	it("resizes the viewport element and overlay", async () => {
+		create(true);
+		await croppie.bind(SMALL_PNG);
+		const overlay = container.querySelector(".cr-overlay") as HTMLElement;
+		const maskBefore = overlay.style.maskImage;
+
+		dragHandle("e", 50, 0);
+
+		const viewport = container.querySelector(".cr-viewport") as HTMLElement;
+		expect(viewport.style.width).toBe("300px");
+		expect(viewport.style.height).toBe("200px");
+		expect(overlay.style.maskImage).not.toBe(maskBefore);
+	});
+
+	it("stretches a custom path with the viewport", async () => {
+		croppie = new Croppie(container, {
+			viewport: {
+				width: 200,
+				height: 200,
+				type: "square",
+				path: "M100 0L200 200L0 200Z",
+			},
+			boundary: { width: 400, height: 400 },
+			enableResize: true,
+		});
+		for (const handle of container.querySelectorAll<HTMLElement>(
+			".cr-resize-handle",
+		)) {
+			handle.setPointerCapture = mock();
+			handle.releasePointerCapture = mock();
+		}
+		await croppie.bind(SMALL_PNG);
+
+		dragHandle("e", 50, 0);
+
+		const overlay = container.querySelector(".cr-overlay") as HTMLElement;
+		const mask = decodeURIComponent(overlay.style.maskImage);
+		expect(mask).toContain("translate(50 100) scale(1.5 1)");
+		expect(
+			container.querySelector(".cr-vp-outline")?.getAttribute("viewBox"),
+		).toBe("0 0 200 200");
+	});
+
+	it("reports points for the live viewport size", async () => {
+		create(true);
+		await croppie.bind({ url: SMALL_PNG, zoom: 1 });
+
+		dragHandle("e", 50, 0);
+
+		const points = croppie.get().points;
+		expect(points.bottomRightX - points.topLeftX).toBe(300);
+		expect(points.bottomRightY - points.topLeftY).toBe(200);
+	});
+
+	it("raises zoom to keep the larger viewport covered", async () => {
+		create(true);
+		await croppie.bind(SMALL_PNG);
+		// 800x600 image in a 200x200 viewport: coverage zoom is 1/3
+		expect(croppie.zoom).toBeCloseTo(1 / 3, 10);
+
+		dragHandle("s", 0, 50);
+
+		// 300px tall viewport needs 0.5
+		expect(croppie.zoom).toBe(0.5);
+	});
+
+	it("keeps resizing within the boundary and limits", async () => {
+		create({ minWidth: 100, maxHeight: 300 });
+		await croppie.bind(SMALL_PNG);
+
+		dragHandle("se", -500, 500);
+
+		const viewport = container.querySelector(".cr-viewport") as HTMLElement;
+		expect(viewport.style.width).toBe("100px");
+		expect(viewport.style.height).toBe("300px");
+
+		dragHandle("e", 500, 0);
+		expect(viewport.style.width).toBe("400px");
+	});
+
+	it("keeps a locked aspect ratio", async () => {
+		create({ aspectRatio: 1 });
+		await croppie.bind(SMALL_PNG);
+
+		dragHandle("e", 40, 0);
+
+		const viewport = container.querySelector(".cr-viewport") as HTMLElement;
+		expect(viewport.style.width).toBe("280px");
+		expect(viewport.style.height).toBe("280px");
+	});
+
+	it("emits update after resizing", async () => {
+		create(true);
+		await croppie.bind(SMALL_PNG);
+		const handler = mock();
+		croppie.on("update", handler);
+
+		dragHandle("e", 10, 0);
+
+		expect(handler).toHaveBeenCalled();
+	});
+
+	it("does not pan the image while resizing", async () => {
+		create(true);
+		await croppie.bind({ url: SMALL_PNG, zoom: 1 });
+		const before = croppie.get().points;
+
+		dragHandle("e", 10, 0);
+
+		const after = croppie.get().points;
+		expect(after.topLeftX + after.bottomRightX).toBe(
+			before.topLeftX + before.bottomRightX,
+		);
+		expect(after.topLeftY).toBe(before.topLeftY);
+	});
+});
@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from "bun:test";
+import { Croppie } from "../../src/Croppie.ts";
+import {
+	installCanvasContextMock,
+	restoreCanvasMocks,
+	setupCanvasMocks,
+} from "../canvas/mocks.ts";
+import { installImageMock } from "../fixtures/mock-helpers.ts";
+import { SMALL_PNG } from "../fixtures/test-image-data-url.ts";
+
+describe("Croppie result types", () => {
+	let container: HTMLDivElement;
+	let croppie: Croppie;
+	let cleanupImageMock: () => void;
+	let contextMock: ReturnType<typeof installCanvasContextMock>;
+	let createObjectURL: ReturnType<typeof jest.spyOn>;
+	let revokeObjectURL: ReturnType<typeof jest.spyOn>;
+
+	beforeEach(async () => {
+		cleanupImageMock = installImageMock({ width: 400, height: 400 });
+		contextMock = installCanvasContextMock();
+		setupCanvasMocks();
+		let nextUrl = 0;
+		createObjectURL = jest
+			.spyOn(URL, "createObjectURL")
+			.mockImplementation(() => `blob:mock/${nextUrl++}`);
+		revokeObjectURL = jest
+			.spyOn(URL, "revokeObjectURL")
+			.mockImplementation(() => {});
+
+		container = document.createElement("div");
+		document.body.appendChild(container);
+		croppie = new Croppie(container, {
+			viewport: { width: 100, height: 100, type: "square" },
+			boundary: { width: 200, height: 200 },
+		});
+		await croppie.bind(SMALL_PNG);
+	});
+
+	afterEach(() => {
+		croppie?.destroy();
+		container.remove();
+		jest.restoreAllMocks();
+		restoreCanvasMocks();
+		contextMock.restore();
+		cleanupImageMock();
+	});
+
+	describe("file", () => {
+		it("returns a File with the encoded type and a generated name", async () => {
+			const file = await croppie.result({ type: "file", format: "jpeg" });
+
+			expect(file).toBeInstanceOf(File);
+			expect((file as File).type).toBe("image/jpeg");
+			expect((file as File).name).toMatch(/^crop-\d+\.jpg$/);
+		});
+
+		it("uses the given file name", async () => {
+			const file = await croppie.result({
+				type: "file",
+				format: "webp",
+				fileName: "avatar.webp",
+			});
+
+			expect((file as File).name).toBe("avatar.webp");
+		});
+
+		it("reports the encoding with the result event", async () => {
+			const handler = jest.fn();
+			croppie.on("result", handler);
+
+			await croppie.result({ type: "file", format: "png" });
+
+			expect(handler.mock.calls[0]?.[0]).toMatchObject({
+				width: 100,
+				height: 100,
+				format: "png",
+			});
+		});
+	});
+
+	describe("imagebitmap", () => {
+		it("creates an ImageBitmap from the result canvas", async () => {
+			const bitmap = { width: 100, height: 100 };
+			const createImageBitmap = jest.fn(async () => bitmap);
+			globalThis.createImageBitmap =
+				createImageBitmap as unknown as typeof globalThis.createImageBitmap;
+
+			try {
+				const result = await croppie.result({
+					type: "imagebitmap",
+					format: ["avif", "webp"],
+				});
+
+				expect(result).toBe(bitmap as unknown as ImageBitmap);
+				expect(createImageBitmap).toHaveBeenCalledWith(
+					expect.any(HTMLCanvasElement),
+				);
+			} finally {
+				Reflect.deleteProperty(globalThis, "createImageBitmap");
+			}
+		});
+	});
+
+	describe("objecturl", () => {
+		it("returns an object URL of the encoded blob", async () => {
+			const url = await croppie.result({ type: "objecturl", format: "webp" });
+
+			expect(url).toBe("blob:mock/0");
+			const blob = createObjectURL.mock.calls[0]?.[0] as Blob;
+			expect(blob.type).toBe("image/webp");
+		});
+
+		it("revokes a single URL", async () => {
+			const url = (await croppie.result({ type: "objecturl" })) as string;
+
+			croppie.revokeObjectUrl(url);
+			croppie.revokeObjectUrl();
+
+			expect(revokeObjectURL.mock.calls).toEqual([[url]]);
+		});
+
+		it("revokes every URL it created", async () => {
+			await croppie.result({ type: "objecturl" });
+			await croppie.result({ type: "objecturl" });
+
+			croppie.revokeObjectUrl();
+
+			expect(revokeObjectURL.mock.calls).toEqual([
+				["blob:mock/0"],
+				["blob:mock/1"],
+			]);
+		});
+
+		it("revokes remaining URLs on destroy", async () => {
+			await croppie.result({ type: "objecturl" });
+
+			croppie.destroy();
+
+			expect(revokeObjectURL).toHaveBeenCalledWith("blob:mock/0");
+		});
+	});
+});
@@ -0,0 +1,383 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from "bun:test";
+import { Croppie } from "../../src/Croppie.ts";
+import { getDataUrlByteLength } from "../../src/canvas/index.ts";
+import type { Viewport } from "../../src/types.ts";
+import {
+	installCanvasContextMock,
+	restoreCanvasMocks,
+	setupCanvasMocks,
+} from "../canvas/mocks.ts";
+import { installImageMock } from "../fixtures/mock-helpers.ts";
+import { SMALL_PNG } from "../fixtures/test-image-data-url.ts";
+
+describe("Croppie results", () => {
+	let container: HTMLDivElement;
+	let croppie: Croppie;
+	let cleanupImageMock: () => void;
+	let contextMock: ReturnType<typeof installCanvasContextMock>;
+
+	beforeEach(() => {
+		cleanupImageMock = installImageMock({ width: 1024, height: 1024 });
+		contextMock = installCanvasContextMock();
+		setupCanvasMocks();
+		container = document.createElement("div");
+		document.body.appendChild(container);
+	});
+
+	afterEach(() => {
+		croppie?.destroy();
+		container.remove();
+		restoreCanvasMocks();
+		contextMock.restore();
+		cleanupImageMock();
+	});
+
+	const createCroppie = async (
+		viewport: Viewport = { width: 200, height: 200, type: "square" },
+	) => {
+		croppie = new Croppie(container, {
+			viewport,
+			boundary: { width: 300, height: 300 },
+		});
+		await croppie.bind(SMALL_PNG);
+	};
+
+	it("returns one output per size keyed by width", async () => {
+		await createCroppie();
+
+		const results = await croppie.results({
+			sizes: [48, 512, 128, 256],
+			type: "base64",
+			format: "jpeg",
+		});
+
+		expect(Object.keys(results).sort()).toEqual(["128", "256", "48", "512"]);
+		expect(results["48"]).toBe("data:image/jpeg;base64,mockbase64data");
+	});
+
+	it("returns blobs", async () => {
+		await createCroppie();
+
+		const results = await croppie.results({ sizes: [64], type: "blob" });
+
+		expect(results["64"]).toBeInstanceOf(Blob);
+	});
+
+	it("crops once and downscales from the next larger size", async () => {
+		await createCroppie();
+
+		const results = (await croppie.results({
+			sizes: [512, 256, 128, 48],
+			type: "canvas",
+		})) as Record<string, HTMLCanvasElement>;
+
+		const sourceDraws = contextMock.canvases.flatMap(({ ctx }) =>
+			ctx.drawImage.mock.calls.filter(
+				([source]) => source instanceof HTMLImageElement,
+			),
+		);
+		expect(sourceDraws).toHaveLength(1);
+
+		const size = (key: string) => {
+			const canvas = results[key] as HTMLCanvasElement;
+			return [canvas.width, canvas.height];
+		};
+		expect(size("512")).toEqual([512, 512]);
+		expect(size("256")).toEqual([256, 256]);
+		expect(size("48")).toEqual([48, 48]);
+
+		// 48 is drawn from the 96px halving step of the 128px output
+		const drawnFrom = (canvas: HTMLCanvasElement) =>
+			contextMock.canvases.find((entry) => entry.canvas === canvas)?.ctx
+				.drawImage.mock.calls[0]?.[0] as HTMLCanvasElement;
+		const step = drawnFrom(results["48"] as HTMLCanvasElement);
+		expect([step.width, step.height]).toEqual([64, 64]);
+		expect(drawnFrom(step)).toBe(results["128"] as HTMLCanvasElement);
+	});
+
+	it("follows the viewport aspect ratio for widths", async () => {
+		await createCroppie({ width: 200, height: 100, type: "square" });
+
+		const results = (await croppie.results({
+			sizes: [400, { width: 60, height: 60 }],
+			type: "canvas",
+		})) as Record<string, HTMLCanvasElement>;
+
+		const wide = results["400"] as HTMLCanvasElement;
+		expect([wide.width, wide.height]).toEqual([400, 200]);
+		const square = results["60x60"] as HTMLCanvasElement;
+		expect([square.width, square.height]).toEqual([60, 60]);
+	});
+
+	it("requires an image and at least one size", async () => {
+		croppie = new Croppie(container, {
+			viewport: { width: 200, height: 200, type: "square" },
+		});
+
+		await expect(
+			croppie.results({ sizes: [64], type: "blob" }),
+		).rejects.toThrow("No image bound");
+
+		await croppie.bind(SMALL_PNG);
+		await expect(croppie.results({ sizes: [], type: "blob" })).rejects.toThrow(
+			"No result sizes given",
+		);
+	});
+
+	describe("resample", () => {
+		const getSourceDraw = () =>
+			contextMock.canvases.find(({ ctx }) =>
+				ctx.drawImage.mock.calls.some(
+					([source]) => source instanceof HTMLImageElement,
+				),
+			);
+
+		it("draws straight to the output size by default", async () => {
+			await createCroppie();
+
+			const canvas = (await croppie.result({
+				type: "canvas",
+				size: { width: 64, height: 64 },
+			})) as HTMLCanvasElement;
+
+			expect(getSourceDraw()?.canvas).toBe(canvas);
+		});
+
+		it("crops at full resolution and steps down", async () => {
+			await createCroppie();
+			const { points } = croppie.get();
+			const cropWidth = Math.round(points.bottomRightX - points.topLeftX);
+
+			const canvas = (await croppie.result({
+				type: "canvas",
+				size: { width: 64, height: 64 },
+				resample: "stepdown",
+			})) as HTMLCanvasElement;
+
+			const crop = getSourceDraw()?.canvas as HTMLCanvasElement;
+			expect(crop.width).toBe(cropWidth);
+			// Crop, halving steps and the final step down, plus the output canvas
+			const sizes = contextMock.canvases.map(({ canvas }) => canvas.width);
+			expect(sizes).toContain(cropWidth / 2);
+			expect(sizes.at(-1)).toBe(64);
+			expect([canvas.width, canvas.height]).toEqual([64, 64]);
+		});
+
+		it("filters the full resolution crop with lanczos", async () => {
+			await createCroppie();
+
+			await croppie.result({
+				type: "canvas",
+				size: { width: 64, height: 64 },
+				resample: "lanczos",
+			});
+
+			const crop = getSourceDraw()?.canvas as HTMLCanvasElement;
+			const filtered = contextMock.canvases.find(
+				({ ctx }) => ctx.putImageData.mock.calls.length > 0,
+			);
+			expect(
+				contextMock.canvases.find(({ canvas }) => canvas === crop)?.ctx
+					.getImageData,
+			).toHaveBeenCalledWith(0, 0, crop.width, crop.height);
+			expect(filtered?.canvas.width).toBe(64);
+		});
+
+		it("does not resample when enlarging", async () => {
+			await createCroppie();
+
+			const canvas = (await croppie.result({
+				type: "canvas",
+				size: { width: 2048, height: 2048 },
+				resample: "lanczos",
+			})) as HTMLCanvasElement;
+
+			expect(getSourceDraw()?.canvas).toBe(canvas);
+		});
+	});
+
+	describe("maxBytes", () => {
+		it("reports the quality and size of the encoded result", async () => {
+			await createCroppie();
+			const handler = jest.fn();
+			croppie.on("result", handler);
+
+			const blob = (await croppie.result({
+				type: "blob",
+				format: "jpeg",
+				quality: 0.8,
+				maxBytes: 1024,
+			})) as Blob;
+
+			expect(handler).toHaveBeenCalledWith({
+				width: 200,
+				height: 200,
+				format: "jpeg",
+				quality: 0.8,
+				bytes: blob.size,
+			});
+		});
+
+		it("fails when the result cannot fit", async () => {
+			await createCroppie();
+
+			await expect(
+				croppie.result({ type: "blob", format: "jpeg", maxBytes: 4 }),
+			).rejects.toThrow("Failed to encode result within 4 bytes");
+		});
+
+		it("returns base64 within the limit", async () => {
+			await createCroppie();
+			const handler = jest.fn();
+			croppie.on("result", handler);
+
+			const base64 = await croppie.result({
+				type: "base64",
+				format: "webp",
+				maxBytes: 1024,
+			});
+
+			expect(base64).toStartWith("data:image/webp;base64,");
+			expect(handler.mock.calls[0]?.[0].bytes).toBe(16);
+		});
+
+		it("reports the encoding to the result's own callback", async () => {
+			await createCroppie();
+			const jpegEncoded = jest.fn();
+			const pngEncoded = jest.fn();
+
+			const [jpeg, png] = (await Promise.all([
+				croppie.result({
+					type: "blob",
+					format: "jpeg",
+					quality: 0.8,
+					maxBytes: 1024,
+					onEncoded: jpegEncoded,
+				}),
+				croppie.result({ type: "blob", onEncoded: pngEncoded }),
+			])) as Blob[];
+
+			expect(jpegEncoded).toHaveBeenCalledTimes(1);
+			expect(jpegEncoded).toHaveBeenCalledWith({
+				width: 200,
+				height: 200,
+				format: "jpeg",
+				quality: 0.8,
+				bytes: jpeg?.size,
+			});
+			expect(pngEncoded).toHaveBeenCalledTimes(1);
+			expect(pngEncoded.mock.calls[0]?.[0]).toMatchObject({
+				format: "png",
+				bytes: png?.size,
+			});
+		});
+
+		it("reports every size of results() with its key", async () => {
+			await createCroppie();
+			const onEncoded = jest.fn();
+
+			const outputs = await croppie.results({
+				sizes: [128, { width: 64, height: 32 }],
+				type: "base64",
+				onEncoded,
+			});
+
+			const reported = Object.fromEntries(
+				onEncoded.mock.calls.map(([info, key]) => [key, info]),
+			);
+			expect(Object.keys(reported).sort()).toEqual(["128", "64x32"]);
+			expect(reported["64x32"]).toMatchObject({ width: 64, height: 32 });
+			expect(reported["128"].bytes).toBe(
+				getDataUrlByteLength(outputs["128"] as string),
+			);
+		});
+
+		it("reports every size of results()", async () => {
+			await createCroppie();
+			const handler = jest.fn();
+			croppie.on("result", handler);
+
+			await croppie.results({ sizes: [128, 64], type: "base64" });
+
+			expect(handler.mock.calls.map(([info]) => info.width)).toEqual([128, 64]);
+		});
+	});
+
+	describe("formats", () => {
+		const WITHOUT_AVIF = ["image/png", "image/jpeg", "image/webp"];
+
+		it("lists the formats the browser encodes", async () => {
+			setupCanvasMocks(WITHOUT_AVIF);
+
+			expect(await Croppie.supportedFormats()).toEqual(["png", "jpeg", "webp"]);
+		});
+
+		it("uses the first supported format of a preference list", async () => {
+			setupCanvasMocks(WITHOUT_AVIF);
+			await createCroppie();
+			const handler = jest.fn();
+			croppie.on("result", handler);
+
+			const blob = (await croppie.result({
+				type: "blob",
+				format: ["avif", "webp", "jpeg"],
+			})) as Blob;
+
+			expect(blob.type).toBe("image/webp");
+			expect(handler.mock.calls[0]?.[0].format).toBe("webp");
+		});
+
+		it("encodes every size of results() in the same format", async () => {
+			setupCanvasMocks(WITHOUT_AVIF);
+			await createCroppie();
+
+			const results = await croppie.results({
+				sizes: [128, 64],
+				type: "base64",
+				format: ["avif", "jpeg"],
+			});
+
+			expect(Object.values(results)).toEqual([
+				"data:image/jpeg;base64,mockbase64data",
+				"data:image/jpeg;base64,mockbase64data",
+			]);
+		});
+
+		it("fails when no preferred format is supported", async () => {
+			setupCanvasMocks(["image/png"]);
+			await createCroppie();
+
+			await expect(
+				croppie.result({ type: "blob", format: ["avif", "webp"] }),
+			).rejects.toThrow(
+				"None of the output formats avif, webp is supported by this browser",
+			);
+		});
+
+		it("warns when the browser substitutes another format", async () => {
+			setupCanvasMocks(WITHOUT_AVIF);
+			await createCroppie();
+			const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+			const handler = jest.fn();
+			croppie.on("result", handler);
+
+			const base64 = await croppie.result({ type: "base64", format: "avif" });
+
+			expect(base64).toStartWith("data:image/png;");
+			expect(warn).toHaveBeenCalledWith(
+				"[@bayinformatics/croppie] The browser encoded image/png instead of image/avif.",
+			);
+			expect(handler.mock.calls[0]?.[0].format).toBe("png");
+			warn.mockRestore();
+		});
+
+		it("rejects a substituted format with strictFormat", async () => {
+			setupCanvasMocks(WITHOUT_AVIF);
+			await createCroppie();
+
+			await expect(
+				croppie.result({ type: "blob", format: "avif", strictFormat: true }),
+			).rejects.toThrow("The browser encoded image/png instead of image/avif");
+		});
+	});
+});
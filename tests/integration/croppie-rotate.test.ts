@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+import { Croppie } from "../../src/Croppie.ts";
+import { installImageMock, simulateDrag } from "../fixtures/mock-helpers.ts";
+import { SMALL_PNG } from "../fixtures/test-image-data-url.ts";
+
+describe("Croppie rotate", () => {
+	let container: HTMLDivElement;
+	let croppie: Croppie;
+	let cleanupImageMock: () => void;
+
+	beforeEach(() => {
+		// 400x200 landscape image
+		cleanupImageMock = installImageMock({ width: 400, height: 200 });
+		container = document.createElement("div");
+		document.body.appendChild(container);
+	});
+
+	afterEach(() => {
+		croppie?.destroy();
+		container.remove();
+		cleanupImageMock();
+	});
+
+	const createCroppie = () =>
+		new Croppie(container, {
+			viewport: { width: 100, height: 100, type: "square" },
+			boundary: { width: 200, height: 200 },
+		});
+
+	it("reports orientation 0 after bind", async () => {
+		croppie = createCroppie();
+		await croppie.bind(SMALL_PNG);
+
+		expect(croppie.get().orientation).toBe(0);
+	});
+
+	it("tracks orientation across rotations", async () => {
+		croppie = createCroppie();
+		await croppie.bind(SMALL_PNG);
+
+		croppie.rotate(90);
+		expect(croppie.get().orientation).toBe(90);
+
+		croppie.rotate(180);
+		expect(croppie.get().orientation).toBe(270);
+
+		croppie.rotate(90);
+		expect(croppie.get().orientation).toBe(0);
+
+		croppie.rotate(-90);
+		expect(croppie.get().orientation).toBe(270);
+	});
+
+	it("returns points in the rotated frame", async () => {
+		croppie = createCroppie();
+		await croppie.bind(SMALL_PNG);
+
+		// Zoom 0.5 covers the viewport: 400x200 -> 200x100
+		expect(croppie.get().points).toEqual({
+			topLeftX: 100,
+			topLeftY: 0,
+			bottomRightX: 300,
+			bottomRightY: 200,
+		});
+
+		croppie.rotate(90);
+
+		// Rotated image is 200x400
+		expect(croppie.get().points).toEqual({
+			topLeftX: 0,
+			topLeftY: 100,
+			bottomRightX: 200,
+			bottomRightY: 300,
+		});
+	});
+
+	it("keeps the viewport center on the same image point", async () => {
+		croppie = createCroppie();
+		await croppie.bind(SMALL_PNG);
+
+		const boundary = container.querySelector(".cr-boundary") as HTMLElement;
+		simulateDrag(boundary, 100, 100, 140, 100);
+
+		// Viewport center sits at (120, 100) in the unrotated image
+		expect(croppie.get().points.topLeftX).toBe(20);
+
+		croppie.rotate(90);
+
+		// (x, y) -> (height - y, x) = (100, 120) in the rotated image
+		const points = croppie.get().points;
+		expect((points.topLeftX + points.bottomRightX) / 2).toBe(100);
+		expect((points.topLeftY + points.bottomRightY) / 2).toBe(120);
+	});
+
+	it("raises zoom when the rotated image no longer covers the viewport", async () => {
+		croppie = new Croppie(container, {
+			viewport: { width: 200, height: 100, type: "square" },
+			boundary: { width: 300, height: 300 },
+		});
+		await croppie.bind(SMALL_PNG);
+		expect(croppie.zoom).toBe(0.5);
+
+		croppie.rotate(90);
+
+		expect(croppie.zoom).toBe(1);
+		const slider = container.querySelector(".cr-slider") as HTMLInputElement;
+		expect(slider.min).toBe("1");
+	});
+
+	it("applies the rotation to the preview transform", async () => {
+		croppie = createCroppie();
+		await croppie.bind(SMALL_PNG);
+
+		croppie.rotate(90);
+
+		const preview = container.querySelector(".cr-image") as HTMLImageElement;
+		expect(preview.style.transform).toContain("rotate(90deg)");
+	});
+
+	it("emits update with the new orientation", async () => {
+		croppie = createCroppie();
+		await croppie.bind(SMALL_PNG);
+
+		const handler = mock();
+		croppie.on("update", handler);
+		croppie.rotate(180);
+
+		expect(handler).toHaveBeenCalledTimes(1);
+		expect(handler.mock.calls[0]?.[0].orientation).toBe(180);
+	});
+
+	it("resets orientation on reset()", async () => {
+		croppie = createCroppie();
+		await croppie.bind(SMALL_PNG);
+
+		croppie.rotate(90);
+		croppie.reset();
+
+		expect(croppie.get().orientation).toBe(0);
+	});
+
+	it("does nothing without a bound image", () => {
+		croppie = createCroppie();
+		croppie.rotate(90);
+
+		expect(croppie.get().orientation).toBe(0);
+	});
+});
@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+import { Croppie } from "../../src/Croppie.ts";
+import { installImageMock } from "../fixtures/mock-helpers.ts";
+import { SMALL_PNG } from "../fixtures/test-image-data-url.ts";
+
+describe("Croppie setData", () => {
+	let container: HTMLDivElement;
+	let croppie: Croppie;
+	let cleanupImageMock: () => void;
+
+	beforeEach(async () => {
+		cleanupImageMock = installImageMock({ width: 800, height: 400 });
+		container = document.createElement("div");
+		document.body.appendChild(container);
+		croppie = new Croppie(container, {
+			viewport: { width: 200, height: 200, type: "square" },
+			boundary: { width: 300, height: 300 },
+		});
+		await croppie.bind(SMALL_PNG);
+	});
+
+	afterEach(() => {
+		croppie?.destroy();
+		container.remove();
+		cleanupImageMock();
+	});
+
+	it("moves the viewport to the given points", () => {
+		croppie.setData({ points: [0, 0, 200, 200] });
+
+		expect(croppie.zoom).toBe(1);
+		expect(croppie.get().points).toEqual({
+			topLeftX: 0,
+			topLeftY: 0,
+			bottomRightX: 200,
+			bottomRightY: 200,
+		});
+	});
+
+	it("setPoints() is a shorthand for setData({ points })", () => {
+		croppie.setPoints({
+			topLeftX: 400,
+			topLeftY: 0,
+			bottomRightX: 800,
+			bottomRightY: 400,
+		});
+
+		expect(croppie.zoom).toBe(0.5);
+		expect(croppie.get().points.topLeftX).toBe(400);
+	});
+
+	it("lets an explicit zoom override the zoom derived from points", () => {
+		croppie.setData({ points: [200, 0, 600, 400], zoom: 1 });
+
+		expect(croppie.zoom).toBe(1);
+		expect(croppie.get().points).toEqual({
+			topLeftX: 300,
+			topLeftY: 100,
+			bottomRightX: 500,
+			bottomRightY: 300,
+		});
+	});
+
+	it("keeps the viewport center when only zoom changes", () => {
+		croppie.setData({ points: [0, 0, 400, 400] });
+		croppie.setData({ zoom: 1 });
+
+		expect(croppie.get().points).toEqual({
+			topLeftX: 100,
+			topLeftY: 100,
+			bottomRightX: 300,
+			bottomRightY: 300,
+		});
+	});
+
+	it("applies orientation before reading points", () => {
+		// Rotated 90 degrees the image is 400x800
+		croppie.setData({ orientation: 90, points: [0, 400, 400, 800] });
+
+		const data = croppie.get();
+		expect(data.orientation).toBe(90);
+		expect(data.points).toEqual({
+			topLeftX: 0,
+			topLeftY: 400,
+			bottomRightX: 400,
+			bottomRightY: 800,
+		});
+	});
+
+	it("restores state returned by get()", () => {
+		croppie.setData({ orientation: 270, points: [100, 200, 300, 400] });
+		const saved = croppie.get();
+
+		croppie.reset();
+		croppie.setData(saved);
+
+		expect(croppie.get()).toEqual(saved);
+	});
+
+	it("clamps zoom and constrains the position", () => {
+		croppie.setData({ points: [700, 300, 900, 500], zoom: 100 });
+
+		expect(croppie.zoom).toBe(10);
+		const points = croppie.get().points;
+		expect(points.bottomRightX).toBe(800);
+		expect(points.bottomRightY).toBe(400);
+	});
+
+	it("updates the slider", () => {
+		croppie.setData({ zoom: 2 });
+
+		const slider = container.querySelector(".cr-slider") as HTMLInputElement;
+		expect(slider.value).toBe("2");
+	});
+
+	it("emits a single update event", () => {
+		const handler = mock();
+		croppie.on("update", handler);
+
+		croppie.setData({ orientation: 180, zoom: 2 });
+
+		expect(handler).toHaveBeenCalledTimes(1);
+		expect(handler.mock.calls[0]?.[0]).toEqual(croppie.get());
+	});
+
+	it("rejects orientations that are not quarter turns", () => {
+		expect(() => croppie.setData({ orientation: 45 })).toThrow(
+			"multiple of 90 degrees",
+		);
+	});
+});
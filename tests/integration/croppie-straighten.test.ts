@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+import { Croppie } from "../../src/Croppie.ts";
+import { installImageMock } from "../fixtures/mock-helpers.ts";
+import { SMALL_PNG } from "../fixtures/test-image-data-url.ts";
+
+describe("Croppie straighten", () => {
+	let container: HTMLDivElement;
+	let croppie: Croppie;
+	let cleanupImageMock: () => void;
+
+	beforeEach(() => {
+		// 400x200 landscape image
+		cleanupImageMock = installImageMock({ width: 400, height: 200 });
+		container = document.createElement("div");
+		document.body.appendChild(container);
+	});
+
+	afterEach(() => {
+		croppie?.destroy();
+		container.remove();
+		cleanupImageMock();
+	});
+
+	const createCroppie = (
+		straighten: boolean | { min?: number; max?: number } = true,
+	) =>
+		new Croppie(container, {
+			viewport: { width: 100, height: 100, type: "square" },
+			boundary: { width: 200, height: 200 },
+			straighten,
+		});
+
+	it("reports angle 0 after bind", async () => {
+		croppie = createCroppie();
+		await croppie.bind(SMALL_PNG);
+
+		expect(croppie.angle).toBe(0);
+		expect(croppie.get().angle).toBe(0);
+	});
+
+	it("sets the angle and emits update", async () => {
+		croppie = createCroppie();
+		await croppie.bind(SMALL_PNG);
+		const handler = mock(() => {});
+		croppie.on("update", handler);
+
+		croppie.setAngle(12.5);
+
+		expect(croppie.get().angle).toBe(12.5);
+		expect(handler).toHaveBeenCalledTimes(1);
+	});
+
+	it("clamps the angle to the straighten limits", async () => {
+		croppie = createCroppie({ min: -10, max: 20 });
+		await croppie.bind(SMALL_PNG);
+
+		croppie.setAngle(90);
+		expect(croppie.angle).toBe(20);
+
+		croppie.angle = -90;
+		expect(croppie.angle).toBe(-10);
+	});
+
+	it("raises the zoom so the tilted image still covers the viewport", async () => {
+		croppie = createCroppie();
+		await croppie.bind(SMALL_PNG);
+		expect(croppie.zoom).toBe(0.5);
+
+		croppie.setAngle(30);
+
+		// The tilted 100x100 viewport spans ~136.6px along the image axes
+		const span = 100 * (Math.cos(Math.PI / 6) + Math.sin(Math.PI / 6));
+		expect(croppie.zoom).toBeCloseTo(span / 200);
+	});
+
+	it("rotates the preview by orientation plus angle", async () => {
+		croppie = createCroppie();
+		await croppie.bind(SMALL_PNG);
+
+		croppie.rotate(90);
+		croppie.setAngle(-15);
+
+		const preview = container.querySelector(".cr-image") as HTMLImageElement;
+		expect(preview.style.transform).toContain("rotate(75deg)");
+		expect(croppie.get().orientation).toBe(90);
+		expect(croppie.get().angle).toBe(-15);
+	});
+
+	it("returns points inside the rotated bounding box", async () => {
+		croppie = createCroppie();
+		await croppie.bind(SMALL_PNG);
+
+		croppie.setAngle(30);
+
+		const rad = Math.PI / 6;
+		const boxWidth = 400 * Math.cos(rad) + 200 * Math.sin(rad);
+		const boxHeight = 200 * Math.cos(rad) + 400 * Math.sin(rad);
+		const { points } = croppie.get();
+
+		// The viewport stays centered on the image center
+		expect((points.topLeftX + points.bottomRightX) / 2).toBeCloseTo(
+			boxWidth / 2,
+		);
+		expect((points.topLeftY + points.bottomRightY) / 2).toBeCloseTo(
+			boxHeight / 2,
+		);
+	});
+
+	it("restores the crop through setData", async () => {
+		croppie = createCroppie();
+		await croppie.bind(SMALL_PNG);
+		croppie.setAngle(10);
+		croppie.setZoom(1);
+		const saved = croppie.get();
+
+		croppie.reset();
+		expect(croppie.angle).toBe(0);
+
+		croppie.setData(saved);
+		const restored = croppie.get();
+		expect(restored.angle).toBe(10);
+		expect(restored.zoom).toBeCloseTo(saved.zoom);
+		expect(restored.points.topLeftX).toBeCloseTo(saved.points.topLeftX);
+		expect(restored.points.topLeftY).toBeCloseTo(saved.points.topLeftY);
+	});
+
+	describe("slider", () => {
+		it("is not rendered by default", () => {
+			croppie = createCroppie(false);
+
+			expect(container.querySelector(".cr-straighten-slider")).toBeNull();
+		});
+
+		it("uses the configured range", () => {
+			croppie = createCroppie({ min: -20, max: 20 });
+
+			const slider = container.querySelector(
+				".cr-straighten-slider",
+			) as HTMLInputElement;
+			expect(slider.min).toBe("-20");
+			expect(slider.max).toBe("20");
+			expect(slider.value).toBe("0");
+		});
+
+		it("sets the angle on input and follows setAngle", async () => {
+			croppie = createCroppie();
+			await croppie.bind(SMALL_PNG);
+			const slider = container.querySelector(
+				".cr-straighten-slider",
+			) as HTMLInputElement;
+
+			slider.value = "5";
+			slider.dispatchEvent(new Event("input"));
+			expect(croppie.angle).toBe(5);
+
+			croppie.setAngle(-8);
+			expect(slider.value).toBe("-8");
+		});
+	});
+});
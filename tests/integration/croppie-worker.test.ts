@@ -0,0 +1,204 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from "bun:test";
+import { startResultWorker } from "../../src/canvas/worker.ts";
+import { Croppie } from "../../src/Croppie.ts";
+import {
+	createMockCanvasContext,
+	installCanvasContextMock,
+	restoreCanvasMocks,
+	setupCanvasMocks,
+} from "../canvas/mocks.ts";
+import { installImageMock } from "../fixtures/mock-helpers.ts";
+import { SMALL_PNG } from "../fixtures/test-image-data-url.ts";
+
+class MockOffscreenCanvas {
+	readonly ctx = createMockCanvasContext();
+
+	constructor(
+		public width: number,
+		public height: number,
+	) {}
+
+	getContext() {
+		return this.ctx;
+	}
+
+	async convertToBlob(options?: { type?: string }) {
+		return new Blob(["worker-data"], { type: options?.type });
+	}
+}
+
+/**
+ * Runs the worker entry point in-process, as if the worker had loaded `result-worker.js`
+ */
+class MockWorker {
+	static instances: MockWorker[] = [];
+	static failToStart = false;
+
+	onmessage: ((event: MessageEvent) => void) | null = null;
+	onerror: ((event: ErrorEvent) => void) | null = null;
+	readonly transferred: Transferable[] = [];
+	terminated = false;
+	private readonly scope = {
+		onmessage: null as ((event: MessageEvent) => void) | null,
+		postMessage: (message: unknown) => {
+			this.onmessage?.({ data: message } as MessageEvent);
+		},
+	};
+
+	constructor(
+		public url: string | URL,
+		public options?: WorkerOptions,
+	) {
+		MockWorker.instances.push(this);
+		startResultWorker(this.scope);
+	}
+
+	postMessage(message: unknown, transfer: Transferable[] = []) {
+		this.transferred.push(...transfer);
+		if (MockWorker.failToStart) {
+			this.onerror?.({
+				message: "Failed to load module",
+				preventDefault: () => {},
+			} as ErrorEvent);
+			return;
+		}
+		this.scope.onmessage?.({ data: message } as MessageEvent);
+	}
+
+	terminate() {
+		this.terminated = true;
+	}
+}
+
+describe("Croppie worker results", () => {
+	let container: HTMLDivElement;
+	let croppie: Croppie;
+	let cleanupImageMock: () => void;
+	let contextMock: ReturnType<typeof installCanvasContextMock>;
+	let bitmap: {
+		width: number;
+		height: number;
+		close: ReturnType<typeof jest.fn>;
+	};
+
+	const installWorkerSupport = () => {
+		Object.assign(globalThis, {
+			Worker: MockWorker,
+			OffscreenCanvas: MockOffscreenCanvas,
+			createImageBitmap: jest.fn(async () => bitmap),
+		});
+	};
+
+	beforeEach(async () => {
+		cleanupImageMock = installImageMock({ width: 400, height: 400 });
+		contextMock = installCanvasContextMock();
+		setupCanvasMocks();
+		MockWorker.instances = [];
+		MockWorker.failToStart = false;
+		bitmap = { width: 400, height: 400, close: jest.fn() };
+
+		container = document.createElement("div");
+		document.body.appendChild(container);
+		croppie = new Croppie(container, {
+			viewport: { width: 100, height: 100, type: "circle" },
+			boundary: { width: 200, height: 200 },
+		});
+		await croppie.bind(SMALL_PNG);
+	});
+
+	afterEach(() => {
+		jest.restoreAllMocks();
+		const globals = globalThis as Record<string, unknown>;
+		delete globals.Worker;
+		delete globals.OffscreenCanvas;
+		delete globals.createImageBitmap;
+		croppie?.destroy();
+		container.remove();
+		restoreCanvasMocks();
+		contextMock.restore();
+		cleanupImageMock();
+	});
+
+	it("falls back to the main thread without OffscreenCanvas", async () => {
+		const blob = (await croppie.result({ type: "blob", worker: true })) as Blob;
+
+		expect(await blob.text()).toBe("mock-canvas-data");
+		expect(contextMock.canvases).toHaveLength(1);
+	});
+
+	it("draws and encodes in a worker", async () => {
+		installWorkerSupport();
+
+		const blob = (await croppie.result({
+			type: "blob",
+			format: "webp",
+			worker: true,
+		})) as Blob;
+
+		expect(await blob.text()).toBe("worker-data");
+		expect(blob.type).toBe("image/webp");
+		expect(contextMock.canvases).toHaveLength(0);
+
+		const [worker] = MockWorker.instances;
+		expect(String(worker?.url)).toEndWith("/result-worker.js");
+		expect(worker?.options).toEqual({ type: "module" });
+		expect(worker?.transferred).toEqual([bitmap as unknown as Transferable]);
+		expect(worker?.terminated).toBe(true);
+		expect(bitmap.close).toHaveBeenCalled();
+	});
+
+	it("returns base64 from the worker blob", async () => {
+		installWorkerSupport();
+
+		const base64 = await croppie.result({ type: "base64", worker: true });
+
+		expect(base64).toStartWith("data:image/png;base64,");
+		expect(contextMock.canvases).toHaveLength(0);
+	});
+
+	it("falls back to the main thread when the worker fails", async () => {
+		installWorkerSupport();
+		MockWorker.failToStart = true;
+		const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+		const blob = (await croppie.result({ type: "blob", worker: true })) as Blob;
+
+		expect(await blob.text()).toBe("mock-canvas-data");
+		expect(warn).toHaveBeenCalled();
+		expect(MockWorker.instances[0]?.terminated).toBe(true);
+	});
+
+	it("ignores the worker for canvas results", async () => {
+		installWorkerSupport();
+
+		await croppie.result({ type: "canvas", worker: true });
+
+		expect(MockWorker.instances).toHaveLength(0);
+	});
+
+	it("starts the worker from the dedicated entry point", async () => {
+		const scope = {
+			onmessage: null as ((event: MessageEvent) => void) | null,
+			postMessage: jest.fn(),
+		};
+		const globals = globalThis as Record<string, unknown>;
+		const previousSelf = globals.self;
+		globals.self = scope;
+		try {
+			await import("../../src/result-worker.ts");
+		} finally {
+			globals.self = previousSelf;
+		}
+
+		expect(scope.onmessage).toBeFunction();
+
+		// The entry is built under the name renderInWorker loads
+		const { scripts } = await Bun.file(
+			new URL("../../package.json", import.meta.url),
+		).json();
+		expect(scripts["build:worker"]).toContain("src/result-worker.ts");
+		expect(scripts["build:worker"]).toContain(
+			"--entry-naming=result-worker.[ext]",
+		);
+	});
+});
@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+import { Croppie } from "../../src/Croppie.ts";
+import { createWheelEvent, installImageMock } from "../fixtures/mock-helpers.ts";
+import { SMALL_PNG } from "../fixtures/test-image-data-url.ts";
+
+describe("Croppie anchored wheel zoom", () => {
+	let container: HTMLDivElement;
+	let croppie: Croppie;
+	let cleanupImageMock: () => void;
+
+	beforeEach(() => {
+		// 400x400 image, covered at zoom 0.25
+		cleanupImageMock = installImageMock({ width: 400, height: 400 });
+		container = document.createElement("div");
+		document.body.appendChild(container);
+	});
+
+	afterEach(() => {
+		croppie?.destroy();
+		container.remove();
+		cleanupImageMock();
+	});
+
+	const createCroppie = async () => {
+		croppie = new Croppie(container, {
+			viewport: { width: 100, height: 100, type: "square" },
+			boundary: { width: 200, height: 200 },
+		});
+		await croppie.bind(SMALL_PNG);
+
+		const boundary = container.querySelector(".cr-boundary") as HTMLElement;
+		boundary.getBoundingClientRect = () =>
+			({ left: 0, top: 0, width: 200, height: 200 }) as DOMRect;
+		return boundary;
+	};
+
+	it("keeps the image point under the cursor in place", async () => {
+		const boundary = await createCroppie();
+
+		// Cursor 25px right of the boundary center, over image x = 200 + 25 / 0.25 = 300
+		boundary.dispatchEvent(
+			createWheelEvent(-100, { clientX: 125, clientY: 100 }),
+		);
+
+		const { points, zoom } = croppie.get();
+		expect(zoom).toBeCloseTo(0.25 * Math.exp(0.2));
+
+		const centerX = (points.topLeftX + points.bottomRightX) / 2;
+		const centerY = (points.topLeftY + points.bottomRightY) / 2;
+		expect(centerX + 25 / zoom).toBeCloseTo(300);
+		expect(centerY).toBeCloseTo(200);
+	});
+
+	it("emits a single update per wheel step", async () => {
+		const boundary = await createCroppie();
+		const handler = mock(() => {});
+		croppie.on("update", handler);
+
+		boundary.dispatchEvent(
+			createWheelEvent(-100, { clientX: 125, clientY: 100 }),
+		);
+
+		expect(handler).toHaveBeenCalledTimes(1);
+	});
+});
@@ -226,7 +226,7 @@ describe.skip("Croppie zoom", () => {
 			const boundary = container.querySelector(".cr-boundary") as HTMLElement;
 			boundary.dispatchEvent(createWheelEvent(-100)); // Zoom in
 
-			expect(croppie.zoom).toBeCloseTo(1.1, 5);
+			expect(croppie.zoom).toBeCloseTo(Math.exp(0.2), 5);
 		});
 
 		it("does not zoom with wheel when mouseWheelZoom is false", async () => {
@@ -257,9 +257,9 @@ describe.skip("Croppie zoom", () => {
 			boundary.dispatchEvent(createWheelEvent(-100));
 			expect(croppie.zoom).toBe(1);
 
-			// With ctrl - should zoom
+			// With ctrl - should zoom at wheel speed
 			boundary.dispatchEvent(createWheelEvent(-100, { ctrlKey: true }));
-			expect(croppie.zoom).toBeCloseTo(1.1, 5);
+			expect(croppie.zoom).toBeCloseTo(Math.exp(0.2), 5);
 		});
 	});
 
@@ -20,8 +20,10 @@ Object.assign(globalThis, {
   PointerEvent: window.PointerEvent,
   TouchEvent: window.TouchEvent,
   WheelEvent: window.WheelEvent,
+  KeyboardEvent: window.KeyboardEvent,
   Image: window.Image,
   Blob: window.Blob,
   File: window.File,
   FileReader: window.FileReader,
+  customElements: window.customElements,
 })
@@ -6,7 +6,13 @@ import {
 	createOverlay,
 	createPreview,
 	createZoomSlider,
+	createStraightenSlider,
 	createSliderContainer,
+	createLiveRegion,
+	createDescription,
+	createResizeHandles,
+	updateOverlay,
+	updateViewportSize,
 } from "../../src/ui/elements.ts";
 
 describe("UI Elements", () => {
@@ -87,6 +93,18 @@ describe("UI Elements", () => {
 			expect(tall.style.width).toBe("150px");
 			expect(tall.style.height).toBe("400px");
 		});
+
+		it("has the application role", () => {
+			const boundary = createBoundary({ width: 300, height: 200 });
+
+			expect(boundary.getAttribute("role")).toBe("application");
+			expect(boundary.hasAttribute("aria-label")).toBe(false);
+		});
+
+		it("sets the accessible name when given", () => {
+			const boundary = createBoundary({ width: 300, height: 200 }, "Crop");
+			expect(boundary.getAttribute("aria-label")).toBe("Crop");
+		});
 	});
 
 	describe("createViewport", () => {
@@ -179,6 +197,45 @@ describe("UI Elements", () => {
 
 			expect(viewport.style.borderRadius).toBe("0px");
 		});
+
+		it("sets border-radius to 50% for ellipse", () => {
+			const viewport = createViewport({
+				width: 200,
+				height: 100,
+				type: "ellipse",
+			});
+
+			expect(viewport.classList.contains("cr-vp-ellipse")).toBe(true);
+			expect(viewport.style.borderRadius).toBe("50%");
+		});
+
+		it("sets the corner radius for rounded", () => {
+			const viewport = createViewport({
+				width: 200,
+				height: 100,
+				type: "rounded",
+				radius: 24,
+			});
+
+			expect(viewport.style.borderRadius).toBe("24px");
+		});
+
+		it("outlines a custom path with an SVG", () => {
+			const viewport = createViewport({
+				width: 200,
+				height: 100,
+				type: "square",
+				path: "M0 0L100 0L50 50Z",
+				viewBox: { width: 100, height: 50 },
+			});
+
+			expect(viewport.classList.contains("cr-vp-path")).toBe(true);
+			const svg = viewport.querySelector(".cr-vp-outline");
+			expect(svg?.getAttribute("viewBox")).toBe("0 0 100 50");
+			expect(svg?.querySelector("path")?.getAttribute("d")).toBe(
+				"M0 0L100 0L50 50Z",
+			);
+		});
 	});
 
 	describe("createOverlay", () => {
@@ -237,6 +294,47 @@ describe("UI Elements", () => {
 			expect(overlay.style.maskImage).toContain("radial-gradient");
 		});
 
+		it("cuts out an ellipse for non-square elliptical viewports", () => {
+			const overlay = createOverlay(boundary, {
+				width: 200,
+				height: 100,
+				type: "ellipse",
+			});
+
+			expect(overlay.style.maskImage).toContain("ellipse 100px 50px");
+		});
+
+		it("cuts out a rounded rectangle with an SVG mask", () => {
+			const overlay = createOverlay(boundary, {
+				width: 200,
+				height: 100,
+				type: "rounded",
+				radius: 20,
+			});
+			const svg = decodeURIComponent(overlay.style.maskImage);
+
+			expect(svg).toContain("data:image/svg+xml");
+			expect(svg).toContain("A20 20 0 0 1");
+		});
+
+		it("cuts out a custom path stretched over the viewport", () => {
+			const overlay = createOverlay(boundary, {
+				width: 200,
+				height: 100,
+				type: "square",
+				path: [
+					[0, 0],
+					[10, 0],
+					[5, 10],
+				],
+				viewBox: { width: 10, height: 10 },
+			});
+			const svg = decodeURIComponent(overlay.style.maskImage);
+
+			expect(svg).toContain('d="M0 0L10 0L5 10Z"');
+			expect(svg).toContain("scale(20 10)");
+		});
+
 		it("sets webkit mask image for compatibility", () => {
 			const overlay = createOverlay(boundary, viewport);
 
@@ -244,6 +342,83 @@ describe("UI Elements", () => {
 		});
 	});
 
+	describe("updateOverlay", () => {
+		it("moves the cutout to the new viewport size", () => {
+			const boundary = { width: 400, height: 300 };
+			const overlay = createOverlay(boundary, {
+				width: 200,
+				height: 200,
+				type: "square",
+			});
+			const before = overlay.style.maskImage;
+
+			updateOverlay(overlay, boundary, {
+				width: 300,
+				height: 100,
+				type: "square",
+			});
+
+			expect(overlay.style.maskImage).not.toBe(before);
+			expect(overlay.style.maskImage).toContain("50px");
+			expect(overlay.style.webkitMaskImage).toBe(overlay.style.maskImage);
+		});
+	});
+
+	describe("updateViewportSize", () => {
+		it("sets width and height", () => {
+			const viewport = createViewport({
+				width: 200,
+				height: 200,
+				type: "square",
+			});
+
+			updateViewportSize(viewport, { width: 150, height: 90, type: "square" });
+
+			expect(viewport.style.width).toBe("150px");
+			expect(viewport.style.height).toBe("90px");
+		});
+
+		it("limits the corner radius to the new size", () => {
+			const viewport = createViewport({
+				width: 200,
+				height: 200,
+				type: "rounded",
+				radius: 40,
+			});
+
+			updateViewportSize(viewport, {
+				width: 150,
+				height: 60,
+				type: "rounded",
+				radius: 40,
+			});
+
+			expect(viewport.style.borderRadius).toBe("30px");
+		});
+	});
+
+	describe("createResizeHandles", () => {
+		it("creates a handle for every edge and corner", () => {
+			const handles = createResizeHandles();
+			const directions = handles.map((handle) => handle.dataset.direction);
+
+			expect(directions).toEqual(["n", "ne", "e", "se", "s", "sw", "w", "nw"]);
+		});
+
+		it("applies handle classes", () => {
+			const [handle] = createResizeHandles();
+
+			expect(handle?.classList.contains("cr-resize-handle")).toBe(true);
+			expect(handle?.classList.contains("cr-resize-n")).toBe(true);
+		});
+
+		it("enables pointer events inside the viewport", () => {
+			for (const handle of createResizeHandles()) {
+				expect(handle.style.pointerEvents).toBe("auto");
+			}
+		});
+	});
+
 	describe("createPreview", () => {
 		it("creates an img element", () => {
 			const preview = createPreview();
@@ -260,6 +435,11 @@ describe("UI Elements", () => {
 			expect(preview.alt).toBe("Cropper image");
 		});
 
+		it("uses custom alt text", () => {
+			const preview = createPreview("Profilbild");
+			expect(preview.alt).toBe("Profilbild");
+		});
+
 		it("is not draggable", () => {
 			const preview = createPreview();
 			// Check the attribute is set - happy-dom may not reflect as boolean
@@ -324,6 +504,15 @@ describe("UI Elements", () => {
 			expect(slider.step).toBe("0.01");
 		});
 
+		it("sets the accessible name when given", () => {
+			expect(createZoomSlider(0.5, 2, 1).hasAttribute("aria-label")).toBe(
+				false,
+			);
+			expect(
+				createZoomSlider(0.5, 2, 1, "Zoom").getAttribute("aria-label"),
+			).toBe("Zoom");
+		});
+
 		it("handles integer values", () => {
 			const slider = createZoomSlider(1, 5, 3);
 
@@ -341,6 +530,66 @@ describe("UI Elements", () => {
 		});
 	});
 
+	describe("createStraightenSlider", () => {
+		it("creates a range input with straighten classes", () => {
+			const slider = createStraightenSlider(-45, 45, 0);
+
+			expect(slider.type).toBe("range");
+			expect(slider.classList.contains("cr-slider")).toBe(true);
+			expect(slider.classList.contains("cr-straighten-slider")).toBe(true);
+		});
+
+		it("sets min, max, value and step", () => {
+			const slider = createStraightenSlider(-30, 30, 12.5);
+
+			expect(slider.min).toBe("-30");
+			expect(slider.max).toBe("30");
+			expect(slider.value).toBe("12.5");
+			expect(slider.step).toBe("0.1");
+		});
+
+		it("sets the accessible name when given", () => {
+			const slider = createStraightenSlider(-45, 45, 0, "Straighten");
+			expect(slider.getAttribute("aria-label")).toBe("Straighten");
+		});
+	});
+
+	describe("createLiveRegion", () => {
+		it("creates a polite, atomic status region", () => {
+			const region = createLiveRegion();
+
+			expect(region.classList.contains("cr-live-region")).toBe(true);
+			expect(region.getAttribute("role")).toBe("status");
+			expect(region.getAttribute("aria-live")).toBe("polite");
+			expect(region.getAttribute("aria-atomic")).toBe("true");
+		});
+
+		it("is visually hidden", () => {
+			const region = createLiveRegion();
+
+			expect(region.style.position).toBe("absolute");
+			expect(region.style.width).toBe("1px");
+			expect(region.style.overflow).toBe("hidden");
+		});
+	});
+
+	describe("createDescription", () => {
+		it("creates a hidden element with the text", () => {
+			const description = createDescription("Use the arrow keys");
+
+			expect(description.textContent).toBe("Use the arrow keys");
+			expect(description.style.width).toBe("1px");
+		});
+
+		it("generates unique ids", () => {
+			const first = createDescription("a");
+			const second = createDescription("b");
+
+			expect(first.id).toMatch(/^cr-description-/);
+			expect(first.id).not.toBe(second.id);
+		});
+	});
+
 	describe("createSliderContainer", () => {
 		it("creates a div element", () => {
 			const container = createSliderContainer();
@@ -235,6 +235,14 @@ describe("DOM utilities", () => {
 			);
 		});
 
+		it("appends rotation when provided", () => {
+			setTransform(element, 10, 20, 2, 90);
+
+			expect(element.style.transform).toBe(
+				"translate(10px, 20px) scale(2) rotate(90deg)",
+			);
+		});
+
 		it("overwrites existing transform", () => {
 			element.style.transform = "rotate(45deg)";
 			setTransform(element, 30, 40, 2);
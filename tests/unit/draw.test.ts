@@ -0,0 +1,27 @@
+import { describe, expect, test } from 'bun:test'
+import { getDownscaleSteps } from '../../src/canvas/draw.ts'
+
+describe('getDownscaleSteps', () => {
+  test('scales directly when the target is within a factor of two', () => {
+    expect(getDownscaleSteps(512, 512, 300, 300)).toEqual([{ width: 300, height: 300 }])
+  })
+
+  test('halves until the target is within a factor of two', () => {
+    expect(getDownscaleSteps(1000, 500, 200, 100)).toEqual([
+      { width: 500, height: 250 },
+      { width: 250, height: 125 },
+      { width: 200, height: 100 }
+    ])
+  })
+
+  test('does not repeat a halving step that reaches the target', () => {
+    expect(getDownscaleSteps(512, 512, 128, 128)).toEqual([
+      { width: 256, height: 256 },
+      { width: 128, height: 128 }
+    ])
+  })
+
+  test('stops halving when either side would undershoot', () => {
+    expect(getDownscaleSteps(1000, 200, 100, 150)).toEqual([{ width: 100, height: 150 }])
+  })
+})
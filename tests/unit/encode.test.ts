@@ -0,0 +1,72 @@
+import { describe, expect, test } from 'bun:test'
+import type { CanvasLike } from '../../src/canvas/draw.ts'
+import { encodeWithinBytes, getDataUrlByteLength } from '../../src/canvas/encode.ts'
+
+/**
+ * A canvas whose encoded size is `bytesPerPixel(quality)` per pixel
+ */
+const createFakeCanvas = (width: number, height: number, bytesPerPixel: (quality: number) => number) => {
+  const qualities: number[] = []
+  const canvas = {
+    width,
+    height,
+    qualities,
+    getContext: () => ({ drawImage: () => {}, imageSmoothingQuality: 'low' }),
+    convertToBlob: async ({ type, quality }: { type: string; quality: number }) => {
+      qualities.push(quality)
+      return new Blob([new Uint8Array(Math.round(canvas.width * canvas.height * bytesPerPixel(quality)))], { type })
+    }
+  }
+  return canvas
+}
+
+const asCanvas = (canvas: object) => canvas as unknown as CanvasLike
+
+describe('encodeWithinBytes', () => {
+  test('keeps the requested quality when it fits', async () => {
+    const canvas = createFakeCanvas(10, 10, (q) => q)
+    const result = await encodeWithinBytes(asCanvas(canvas), 1000, { format: 'jpeg', quality: 0.8 })
+    expect(result.quality).toBe(0.8)
+    expect(result.blob.size).toBe(80)
+    expect(canvas.qualities).toEqual([0.8])
+  })
+
+  test('finds the highest quality that fits', async () => {
+    const canvas = createFakeCanvas(100, 10, (q) => q)
+    const result = await encodeWithinBytes(asCanvas(canvas), 500, { format: 'webp' })
+    expect(result.blob.size).toBeLessThanOrEqual(500)
+    expect(result.quality).toBeLessThanOrEqual(0.5)
+    expect(result.quality).toBeGreaterThan(0.49)
+    expect(result.blob.type).toBe('image/webp')
+  })
+
+  test('fails when even the lowest quality is too large', async () => {
+    const canvas = createFakeCanvas(100, 100, (q) => q)
+    await expect(encodeWithinBytes(asCanvas(canvas), 100, { format: 'jpeg' })).rejects.toThrow(
+      'Failed to encode result within 100 bytes'
+    )
+  })
+
+  test('does not search the quality of PNG', async () => {
+    const canvas = createFakeCanvas(100, 100, () => 1)
+    await expect(encodeWithinBytes(asCanvas(canvas), 100)).rejects.toThrow()
+    expect(canvas.qualities).toEqual([0.92])
+  })
+
+  test('shrinks the image when asked to', async () => {
+    const canvas = createFakeCanvas(400, 200, () => 1)
+    const createCanvas = (width: number, height: number) => asCanvas(createFakeCanvas(width, height, () => 1))
+    const result = await encodeWithinBytes(asCanvas(canvas), 5000, { format: 'png', shrink: true, createCanvas })
+    expect(result.blob.size).toBeLessThanOrEqual(5000)
+    expect(result.width).toBeLessThan(400)
+    expect(result.width / result.height).toBeCloseTo(2, 1)
+  })
+})
+
+describe('getDataUrlByteLength', () => {
+  test('counts decoded bytes', () => {
+    expect(getDataUrlByteLength(`data:image/png;base64,${btoa('abc')}`)).toBe(3)
+    expect(getDataUrlByteLength(`data:image/png;base64,${btoa('abcd')}`)).toBe(4)
+    expect(getDataUrlByteLength(`data:image/png;base64,${btoa('abcde')}`)).toBe(5)
+  })
+})
@@ -0,0 +1,88 @@
+import { describe, expect, test } from 'bun:test'
+import { CropEngine } from '../../src/CropEngine.ts'
+import type { CanvasLike, CropSource } from '../../src/canvas/draw.ts'
+
+const createEngine = () => new CropEngine({ viewport: { width: 100, height: 100, type: 'square' } })
+
+/**
+ * A canvas that records the drawImage calls of its context
+ */
+const createFakeCanvas = (width: number, height: number) => {
+  const drawn: unknown[][] = []
+  return {
+    width,
+    height,
+    drawn,
+    getContext: () => ({
+      drawImage: (...args: unknown[]) => drawn.push(args)
+    })
+  }
+}
+
+describe('CropEngine', () => {
+  test('fits the image to cover the viewport', () => {
+    const engine = createEngine()
+    engine.setImage(400, 200)
+
+    expect(engine.zoom).toBe(0.5)
+    expect(engine.minZoom).toBe(0.5)
+    expect(engine.getPoints()).toEqual({ topLeftX: 100, topLeftY: 0, bottomRightX: 300, bottomRightY: 200 })
+  })
+
+  test('keeps the image covering the viewport when moved', () => {
+    const engine = createEngine()
+    engine.setImage(400, 200)
+    engine.moveTo(1000, 50)
+
+    expect(engine.getPoints()).toEqual({ topLeftX: 0, topLeftY: 0, bottomRightX: 200, bottomRightY: 200 })
+  })
+
+  test('displays the image upright for an EXIF orientation', () => {
+    const engine = createEngine()
+    engine.setImage(400, 200, { orientation: 6 })
+
+    expect(engine.orientation).toBe(90)
+    expect(engine.getRotatedSize()).toEqual({ width: 200, height: 400 })
+  })
+
+  test('replays crop data from another engine', () => {
+    const client = createEngine()
+    client.setImage(400, 200)
+    client.setZoom(1.5)
+    client.moveTo(-60, 20)
+    client.rotate(90)
+    client.setAngle(10)
+    client.flip('horizontal')
+
+    const server = createEngine()
+    server.setImage(400, 200)
+    server.setData(client.get())
+
+    const expected = client.get()
+    const actual = server.get()
+    expect(actual.zoom).toBeCloseTo(expected.zoom)
+    expect(actual.orientation).toBe(expected.orientation)
+    expect(actual.angle).toBe(expected.angle)
+    expect(actual.flip).toEqual(expected.flip)
+    for (const key of ['topLeftX', 'topLeftY', 'bottomRightX', 'bottomRightY'] as const) {
+      expect(actual.points[key]).toBeCloseTo(expected.points[key])
+    }
+  })
+
+  test('draws with a custom canvas factory', () => {
+    const engine = createEngine()
+    engine.setImage(400, 200)
+    engine.setData({ points: [50, 50, 150, 150] })
+
+    const image = { width: 400, height: 200 } as unknown as CropSource
+    const canvas = engine.draw(image, { size: { width: 300, height: 300 } }, (width, height) => createFakeCanvas(width, height) as unknown as CanvasLike)
+    const { width, height, drawn } = canvas as unknown as ReturnType<typeof createFakeCanvas>
+
+    expect([width, height]).toEqual([300, 300])
+    expect(drawn).toEqual([[image, 50, 50, 100, 100, 0, 0, 300, 300]])
+  })
+
+  test('throws when drawing without an image', () => {
+    expect(() => createEngine().draw({} as CropSource)).toThrow('No image set')
+  })
+})
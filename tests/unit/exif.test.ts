@@ -0,0 +1,95 @@
+import { describe, expect, it } from "bun:test";
+import {
+	getExifOrientation,
+	getExifTransform,
+	readExifOrientation,
+} from "../../src/utils/exif.ts";
+import { createExifJpeg, toJpegDataUrl } from "../fixtures/exif-jpeg.ts";
+import { SMALL_PNG } from "../fixtures/test-image-data-url.ts";
+
+const toBuffer = (bytes: Uint8Array) => bytes.slice().buffer;
+
+describe("EXIF utilities", () => {
+	describe("readExifOrientation", () => {
+		it("reads big-endian orientation", () => {
+			expect(readExifOrientation(toBuffer(createExifJpeg(6)))).toBe(6);
+		});
+
+		it("reads little-endian orientation", () => {
+			const bytes = createExifJpeg(8, { littleEndian: true });
+			expect(readExifOrientation(toBuffer(bytes))).toBe(8);
+		});
+
+		it("skips segments before the Exif segment", () => {
+			const app0 = [0xff, 0xe0, 0x00, 0x06, 0x4a, 0x46, 0x49, 0x46];
+			// An APP1 segment that is not Exif (e.g. XMP)
+			const xmp = [0xff, 0xe1, 0x00, 0x06, 0x68, 0x74, 0x74, 0x70];
+			const bytes = createExifJpeg(3, { prefixSegments: [app0, xmp] });
+
+			expect(readExifOrientation(toBuffer(bytes))).toBe(3);
+		});
+
+		it("returns undefined for out-of-range values", () => {
+			expect(readExifOrientation(toBuffer(createExifJpeg(9)))).toBeUndefined();
+			expect(readExifOrientation(toBuffer(createExifJpeg(0)))).toBeUndefined();
+		});
+
+		it("returns undefined for JPEGs without Exif", () => {
+			const bytes = new Uint8Array([0xff, 0xd8, 0xff, 0xda, 0x00, 0x02]);
+			expect(readExifOrientation(toBuffer(bytes))).toBeUndefined();
+		});
+
+		it("returns undefined for non-JPEG data", () => {
+			const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a]);
+			expect(readExifOrientation(toBuffer(png))).toBeUndefined();
+			expect(readExifOrientation(new ArrayBuffer(0))).toBeUndefined();
+		});
+
+		it("returns undefined for truncated data", () => {
+			const bytes = createExifJpeg(6).slice(0, 20);
+			expect(readExifOrientation(toBuffer(bytes))).toBeUndefined();
+		});
+	});
+
+	describe("getExifOrientation", () => {
+		it("reads base64 data URLs", async () => {
+			const url = toJpegDataUrl(createExifJpeg(6));
+			expect(await getExifOrientation(url)).toBe(6);
+		});
+
+		it("reads Blobs", async () => {
+			const blob = new Blob([createExifJpeg(5)], { type: "image/jpeg" });
+			expect(await getExifOrientation(blob)).toBe(5);
+		});
+
+		it("returns undefined for other images and URLs", async () => {
+			expect(await getExifOrientation(SMALL_PNG)).toBeUndefined();
+			expect(
+				await getExifOrientation("https://example.com/photo.jpg"),
+			).toBeUndefined();
+		});
+	});
+
+	describe("getExifTransform", () => {
+		it("maps every orientation to a rotation and flip", () => {
+			const none = { horizontal: false, vertical: false };
+			const horizontal = { horizontal: true, vertical: false };
+
+			expect(getExifTransform(1)).toEqual({ rotation: 0, flip: none });
+			expect(getExifTransform(2)).toEqual({ rotation: 0, flip: horizontal });
+			expect(getExifTransform(3)).toEqual({ rotation: 180, flip: none });
+			expect(getExifTransform(4)).toEqual({
+				rotation: 0,
+				flip: { horizontal: false, vertical: true },
+			});
+			expect(getExifTransform(5)).toEqual({ rotation: 270, flip: horizontal });
+			expect(getExifTransform(6)).toEqual({ rotation: 90, flip: none });
+			expect(getExifTransform(7)).toEqual({ rotation: 90, flip: horizontal });
+			expect(getExifTransform(8)).toEqual({ rotation: 270, flip: none });
+		});
+
+		it("treats unknown values as upright", () => {
+			expect(getExifTransform(42)).toEqual(getExifTransform(1));
+		});
+	});
+});
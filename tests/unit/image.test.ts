@@ -5,6 +5,9 @@ import {
 	getImageDimensions,
 	aspectRatio,
 	calculateInitialZoom,
+	getOrientedDimensions,
+	getRotatedBoundingBox,
+	normalizeOrientation,
 } from "../../src/utils/image.ts";
 import { TINY_PNG, RED_PNG, SMALL_PNG } from "../fixtures/test-image-data-url.ts";
 import { createMockImage, installImageMock } from "../fixtures/mock-helpers.ts";
@@ -253,4 +256,68 @@ describe("Image utilities", () => {
 			expect(zoom).toBeCloseTo(1 / 3, 5);
 		});
 	});
+
+	describe("normalizeOrientation", () => {
+		it("keeps angles in [0, 360)", () => {
+			expect(normalizeOrientation(0)).toBe(0);
+			expect(normalizeOrientation(90)).toBe(90);
+			expect(normalizeOrientation(360)).toBe(0);
+			expect(normalizeOrientation(450)).toBe(90);
+		});
+
+		it("wraps negative angles", () => {
+			expect(normalizeOrientation(-90)).toBe(270);
+			expect(normalizeOrientation(-450)).toBe(270);
+		});
+	});
+
+	describe("getOrientedDimensions", () => {
+		it("keeps dimensions for 0 and 180 degrees", () => {
+			expect(getOrientedDimensions(400, 300, 0)).toEqual({
+				width: 400,
+				height: 300,
+			});
+			expect(getOrientedDimensions(400, 300, 180)).toEqual({
+				width: 400,
+				height: 300,
+			});
+		});
+
+		it("swaps dimensions for quarter turns", () => {
+			expect(getOrientedDimensions(400, 300, 90)).toEqual({
+				width: 300,
+				height: 400,
+			});
+			expect(getOrientedDimensions(400, 300, -90)).toEqual({
+				width: 300,
+				height: 400,
+			});
+		});
+	});
+
+	describe("getRotatedBoundingBox", () => {
+		it("matches oriented dimensions for quarter turns", () => {
+			expect(getRotatedBoundingBox(400, 300, 90)).toEqual({
+				width: 300,
+				height: 400,
+			});
+			expect(getRotatedBoundingBox(400, 300, 180)).toEqual({
+				width: 400,
+				height: 300,
+			});
+		});
+
+		it("encloses the rectangle for free angles", () => {
+			const box = getRotatedBoundingBox(100, 100, 45);
+
+			expect(box.width).toBeCloseTo(100 * Math.SQRT2);
+			expect(box.height).toBeCloseTo(100 * Math.SQRT2);
+		});
+
+		it("is symmetric for negative angles", () => {
+			expect(getRotatedBoundingBox(400, 300, -30)).toEqual(
+				getRotatedBoundingBox(400, 300, 30),
+			);
+		});
+	});
 });
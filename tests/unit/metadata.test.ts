@@ -0,0 +1,164 @@
+import { describe, expect, test } from 'bun:test'
+import { crc32, readJpegSegments, readPngChunks, writeJpeg, writePng } from '../../src/canvas/chunks.ts'
+import { embedMetadata, encodeMetadata, filterExif, readImageMetadata } from '../../src/canvas/metadata.ts'
+import { readExifOrientation } from '../../src/utils/exif.ts'
+
+const ascii = (text: string) => Uint8Array.from(text, (char) => char.charCodeAt(0))
+const text = (bytes: Uint8Array) => String.fromCharCode(...bytes)
+const blobBytes = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer())
+
+// SOI, JFIF APP0 at 72 dpi, start of scan, scan data, EOI
+const JFIF_72 = [0x4a, 0x46, 0x49, 0x46, 0, 1, 1, 1, 0, 72, 0, 72, 0, 0]
+const createJpeg = () =>
+  new Blob([writeJpeg([{ type: 0xffe0, data: new Uint8Array(JFIF_72) }], new Uint8Array([0xff, 0xda, 0, 2, 1, 2, 0xff, 0xd9]))], {
+    type: 'image/jpeg'
+  })
+
+const createPng = () =>
+  new Blob(
+    [
+      writePng([
+        { type: 'IHDR', data: new Uint8Array(13) },
+        { type: 'sRGB', data: new Uint8Array([0]) },
+        { type: 'IDAT', data: new Uint8Array([1, 2, 3]) },
+        { type: 'IEND', data: new Uint8Array(0) }
+      ])
+    ],
+    { type: 'image/png' }
+  )
+
+type Entry = [tag: number, type: number, count: number, value: number[]]
+
+/**
+ * Big-endian TIFF with IFD0 entries and an Exif IFD, each value stored after its directory
+ */
+const createTiff = (ifd0: Entry[], exif: Entry[]) => {
+  const bytes: number[] = [0x4d, 0x4d, 0, 42, 0, 0, 0, 8]
+  const u16 = (value: number) => [value >> 8, value & 0xff]
+  const u32 = (value: number) => [value >>> 24, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]
+  const writeIfd = (entries: Entry[]) => {
+    const start = bytes.length
+    let valueOffset = start + 2 + entries.length * 12 + 4
+    const values: number[] = []
+    bytes.push(...u16(entries.length))
+    for (const [tag, type, count, value] of entries) {
+      const padded = value.length <= 4 ? [...value, 0, 0, 0, 0].slice(0, 4) : u32(valueOffset)
+      bytes.push(...u16(tag), ...u16(type), ...u32(count), ...padded)
+      if (value.length > 4) {
+        values.push(...value)
+        valueOffset += value.length
+      }
+    }
+    bytes.push(0, 0, 0, 0, ...values)
+  }
+
+  const exifOffset = 8 + 2 + (ifd0.length + 1) * 12 + 4 + ifd0.reduce((sum, [, , , value]) => sum + (value.length > 4 ? value.length : 0), 0)
+  writeIfd([...ifd0, [0x8769, 4, 1, u32(exifOffset)]])
+  writeIfd(exif)
+  return new Uint8Array(bytes)
+}
+
+const asciiValue = (value: string) => [...ascii(value), 0]
+
+describe('chunks', () => {
+  test('computes the PNG CRC', () => {
+    expect(crc32(ascii('IEND'))).toBe(0xae426082)
+  })
+
+  test('reads back written PNG chunks', async () => {
+    const chunks = readPngChunks(await blobBytes(createPng()))
+    expect(chunks.map((chunk) => chunk.type)).toEqual(['IHDR', 'sRGB', 'IDAT', 'IEND'])
+  })
+})
+
+describe('filterExif', () => {
+  const tiff = createTiff(
+    [
+      [0x010f, 2, 6, asciiValue('Canon')],
+      [0x0112, 3, 1, [0, 6]],
+      [0x8298, 2, 6, asciiValue('Jane')]
+    ],
+    [
+      [0x829d, 5, 1, [0, 0, 0, 28, 0, 0, 0, 10]],
+      [0x9003, 2, 20, asciiValue('2024:05:01 10:00:00')]
+    ]
+  )
+
+  test('keeps the selected fields of IFD0 and the Exif IFD', () => {
+    const filtered = filterExif(tiff, ['Make', 'DateTimeOriginal']) as Uint8Array
+
+    expect(text(filtered)).toContain('Canon')
+    expect(text(filtered)).toContain('2024:05:01 10:00:00')
+    expect(text(filtered)).not.toContain('Jane')
+    expect(filtered.length).toBeLessThan(tiff.length)
+  })
+
+  test('drops the orientation', () => {
+    const filtered = filterExif(tiff, ['Make', 'Copyright']) as Uint8Array
+    const jpeg = writeJpeg([{ type: 0xffe1, data: new Uint8Array([...ascii('Exif\0\0'), ...filtered]) }], new Uint8Array([0xff, 0xda]))
+
+    expect(readExifOrientation(jpeg.slice().buffer)).toBeUndefined()
+    expect(text(filterExif(filtered, ['Copyright']) as Uint8Array)).toContain('Jane')
+  })
+
+  test('returns undefined without matching fields', () => {
+    expect(filterExif(tiff, ['GPS', 'LensModel'])).toBeUndefined()
+  })
+})
+
+describe('metadata', () => {
+  test('sets the JFIF density of a JPEG', async () => {
+    const metadata = await encodeMetadata({ dpi: 300 }, 'jpeg')
+    const jpeg = await blobBytes(await embedMetadata(createJpeg(), metadata!))
+
+    const { segments } = readJpegSegments(jpeg)
+    expect(segments).toHaveLength(1)
+    const density = new DataView(segments[0]!.data.buffer, segments[0]!.data.byteOffset)
+    expect(density.getUint8(7)).toBe(1)
+    expect(density.getUint16(8)).toBe(300)
+    expect(density.getUint16(10)).toBe(300)
+    expect(jpeg.slice(-8)).toEqual(new Uint8Array([0xff, 0xda, 0, 2, 1, 2, 0xff, 0xd9]))
+  })
+
+  test('splits large ICC profiles over several JPEG segments', async () => {
+    const icc = Uint8Array.from({ length: 70000 }, (_, i) => i % 251)
+    const metadata = await encodeMetadata({ icc }, 'jpeg')
+    const jpeg = await blobBytes(await embedMetadata(createJpeg(), metadata!))
+
+    const { segments } = readJpegSegments(jpeg)
+    expect(segments.map((segment) => segment.type)).toEqual([0xffe0, 0xffe2, 0xffe2])
+    expect((await readImageMetadata(jpeg)).icc).toEqual(icc)
+    expect(jpeg.length - (await createJpeg().arrayBuffer()).byteLength).toBe(metadata!.byteLength)
+  })
+
+  test('writes EXIF into JPEG and PNG', async () => {
+    const exif = new Uint8Array([0x4d, 0x4d, 0, 42, 0, 0, 0, 8, 0, 0, 0, 0, 0, 0])
+    const jpeg = await blobBytes(await embedMetadata(createJpeg(), (await encodeMetadata({ exif }, 'jpeg'))!))
+    const png = await blobBytes(await embedMetadata(createPng(), (await encodeMetadata({ exif }, 'png'))!))
+
+    expect((await readImageMetadata(jpeg)).exif).toEqual(exif)
+    expect((await readImageMetadata(png)).exif).toEqual(exif)
+  })
+
+  test('adds pHYs and iCCP chunks after IHDR and drops sRGB', async () => {
+    const icc = ascii('profile data '.repeat(20))
+    const metadata = await encodeMetadata({ dpi: 300, icc }, 'png')
+    const png = await blobBytes(await embedMetadata(createPng(), metadata!))
+
+    const chunks = readPngChunks(png)
+    expect(chunks.map((chunk) => chunk.type)).toEqual(['IHDR', 'pHYs', 'iCCP', 'IDAT', 'IEND'])
+    const phys = new DataView(chunks[1]!.data.buffer, chunks[1]!.data.byteOffset)
+    // 300 dpi is 11811 pixels per meter
+    expect(phys.getUint32(0)).toBe(11811)
+    expect(phys.getUint8(8)).toBe(1)
+    expect((await readImageMetadata(png)).icc).toEqual(icc)
+  })
+
+  test('leaves other formats unchanged', async () => {
+    expect(await encodeMetadata({ dpi: 300 }, 'webp')).toBeNull()
+
+    const metadata = await encodeMetadata({ dpi: 300 }, 'png')
+    const jpeg = createJpeg()
+    expect(await embedMetadata(jpeg, metadata!)).toBe(jpeg)
+  })
+})
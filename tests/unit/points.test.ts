@@ -1,5 +1,5 @@
 import { describe, test, expect } from 'bun:test'
-import { normalizePoints, pointsToArray } from '../../src/utils/points.ts'
+import { normalizePoints, pointsToArray, pointsToTransform, rotateVector } from '../../src/utils/points.ts'
 
 describe('normalizePoints', () => {
   test('converts array format to object', () => {
@@ -46,3 +46,60 @@ describe('pointsToArray', () => {
     expect(result).toEqual([10, 20, 110, 120])
   })
 })
+
+describe('pointsToTransform', () => {
+  test('centers a region matching the viewport aspect ratio', () => {
+    // 200x200 region of a 400x400 image in a 100x100 viewport
+    const result = pointsToTransform(
+      { topLeftX: 0, topLeftY: 0, bottomRightX: 200, bottomRightY: 200 },
+      400,
+      400,
+      100,
+      100
+    )
+    // Region center (100, 100) is 100px left/up of the image center at scale 0.5
+    expect(result).toEqual({ x: 50, y: 50, scale: 0.5 })
+  })
+
+  test('fits the whole region when aspect ratios differ', () => {
+    // 200x100 region in a 100x100 viewport: width limits the zoom
+    const result = pointsToTransform(
+      { topLeftX: 100, topLeftY: 150, bottomRightX: 300, bottomRightY: 250 },
+      400,
+      400,
+      100,
+      100
+    )
+    expect(result).toEqual({ x: 0, y: 0, scale: 0.5 })
+  })
+
+  test('throws for empty regions', () => {
+    expect(() =>
+      pointsToTransform(
+        { topLeftX: 10, topLeftY: 10, bottomRightX: 10, bottomRightY: 50 },
+        400,
+        400,
+        100,
+        100
+      )
+    ).toThrow('positive width and height')
+  })
+})
+
+describe('rotateVector', () => {
+  test('rotates clockwise in screen coordinates', () => {
+    expect(rotateVector(10, 0, 90)).toEqual({ x: 0, y: 10 })
+    expect(rotateVector(0, 10, 90)).toEqual({ x: -10, y: 0 })
+  })
+
+  test('is exact for quarter turns', () => {
+    expect(rotateVector(3, 4, 180)).toEqual({ x: -3, y: -4 })
+    expect(rotateVector(3, 4, -90)).toEqual({ x: 4, y: -3 })
+  })
+
+  test('rotates by free angles', () => {
+    const result = rotateVector(10, 0, 30)
+    expect(result.x).toBeCloseTo(10 * Math.cos(Math.PI / 6))
+    expect(result.y).toBeCloseTo(5)
+  })
+})
@@ -0,0 +1,51 @@
+import { describe, expect, test } from 'bun:test'
+import { type PixelData, resampleLanczos } from '../../src/canvas/resample.ts'
+
+const fill = (width: number, height: number, pixel: (x: number, y: number) => number[]): PixelData => {
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data.set(pixel(x, y), (y * width + x) * 4)
+    }
+  }
+  return { data, width, height }
+}
+
+const pixelAt = (pixels: PixelData, x: number, y: number) =>
+  Array.from(pixels.data.slice((y * pixels.width + x) * 4, (y * pixels.width + x) * 4 + 4))
+
+describe('resampleLanczos', () => {
+  test('returns pixels of the target size', () => {
+    const result = resampleLanczos(fill(40, 20, () => [0, 0, 0, 255]), 10, 5)
+    expect(result.width).toBe(10)
+    expect(result.height).toBe(5)
+    expect(result.data.length).toBe(10 * 5 * 4)
+  })
+
+  test('keeps a uniform color', () => {
+    const result = resampleLanczos(fill(64, 64, () => [200, 100, 50, 255]), 7, 7)
+    for (let y = 0; y < 7; y++) {
+      for (let x = 0; x < 7; x++) {
+        expect(pixelAt(result, x, y)).toEqual([200, 100, 50, 255])
+      }
+    }
+  })
+
+  test('averages fine detail instead of aliasing', () => {
+    // One-pixel checkerboard: point sampling would return pure black or white
+    const checker = fill(64, 64, (x, y) => ((x + y) % 2 === 0 ? [255, 255, 255, 255] : [0, 0, 0, 255]))
+    const result = resampleLanczos(checker, 8, 8)
+    const [r] = pixelAt(result, 4, 4)
+    expect(r).toBeGreaterThan(110)
+    expect(r).toBeLessThan(145)
+  })
+
+  test('does not darken colors next to transparent pixels', () => {
+    const half = fill(64, 64, (x) => (x < 32 ? [255, 0, 0, 255] : [0, 0, 0, 0]))
+    const result = resampleLanczos(half, 2, 2)
+    const [r, g, b, a] = pixelAt(result, 0, 0)
+    expect([r, g, b]).toEqual([255, 0, 0])
+    expect(a).toBeGreaterThan(200)
+    expect(pixelAt(result, 1, 0)[3]).toBeLessThan(55)
+  })
+})
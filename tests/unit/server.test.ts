@@ -0,0 +1,97 @@
+import { describe, expect, test } from 'bun:test'
+import { writeJpeg } from '../../src/canvas/chunks.ts'
+import { cropImage } from '../../src/server.ts'
+import type { CroppieData, ServerCanvas } from '../../src/types.ts'
+
+type FakeCanvas = { width: number; height: number; calls: unknown[][] }
+
+/**
+ * A backend whose canvases record every context call and whose encoder returns the canvas size
+ */
+const createBackend = () => {
+  const canvases: FakeCanvas[] = []
+  const encoded: [FakeCanvas, string, number][] = []
+  const backend: ServerCanvas<{ width: number; height: number }, FakeCanvas> = {
+    decode: async () => ({ width: 400, height: 200 }),
+    createCanvas: (width, height) => {
+      const calls: unknown[][] = []
+      const canvas = {
+        width,
+        height,
+        calls,
+        getContext: () => new Proxy({}, { get: (_, name) => (...args: unknown[]) => calls.push([name, ...args]) })
+      }
+      canvases.push(canvas)
+      return canvas
+    },
+    encode: (canvas, format, quality) => {
+      encoded.push([canvas, format, quality])
+      return new Uint8Array([canvas.width, canvas.height])
+    }
+  }
+  return { backend, canvases, encoded }
+}
+
+// JPEG with an Exif segment whose single IFD0 entry is Orientation 6 (rotate 90° clockwise)
+const ROTATED_JPEG = writeJpeg(
+  [
+    {
+      type: 0xffe1,
+      data: new Uint8Array([0x45, 0x78, 0x69, 0x66, 0, 0, 0x4d, 0x4d, 0, 42, 0, 0, 0, 8, 0, 1, 0x01, 0x12, 0, 3, 0, 0, 0, 1, 0, 6, 0, 0, 0, 0, 0, 0])
+    }
+  ],
+  new Uint8Array([0xff, 0xda, 0, 2, 0xff, 0xd9])
+)
+
+const viewport = { width: 100, height: 100, type: 'square' as const }
+const data: CroppieData = { points: { topLeftX: 50, topLeftY: 50, bottomRightX: 150, bottomRightY: 150 }, zoom: 1 }
+
+describe('cropImage', () => {
+  test('draws the crop data and encodes the canvas', async () => {
+    const { backend, canvases, encoded } = createBackend()
+    const result = await cropImage(new Uint8Array([1, 2, 3]), data, { viewport, size: { width: 300, height: 300 }, canvas: backend })
+
+    expect(result).toEqual(new Uint8Array([300, 300]))
+    expect(canvases).toHaveLength(1)
+    expect(canvases[0]!.calls).toEqual([['drawImage', { width: 400, height: 200 }, 50, 50, 100, 100, 0, 0, 300, 300]])
+    expect(encoded).toEqual([[canvases[0]!, 'png', 0.92]])
+  })
+
+  test('uses the format and quality', async () => {
+    const { backend, encoded } = createBackend()
+    await cropImage(new ArrayBuffer(4), data, { viewport, format: 'jpeg', quality: 0.7, canvas: backend })
+
+    expect(encoded[0]!.slice(1)).toEqual(['jpeg', 0.7])
+  })
+
+  test('displays the image upright before applying the data', async () => {
+    const { backend, canvases } = createBackend()
+    await cropImage(ROTATED_JPEG, { points: [50, 100, 150, 200] }, { viewport, canvas: backend })
+
+    const [upright, output] = canvases
+    expect([upright!.width, upright!.height]).toEqual([200, 400])
+    expect(output!.calls).toEqual([['drawImage', upright, 50, 100, 100, 100, 0, 0, 100, 100]])
+  })
+
+  test('can keep the image as stored', async () => {
+    const { backend, canvases } = createBackend()
+    await cropImage(ROTATED_JPEG, data, { viewport, canvas: backend, exifOrientation: false })
+
+    expect(canvases).toHaveLength(1)
+  })
+
+  test('clips path viewports with the backend\'s paths', async () => {
+    const { backend, canvases } = createBackend()
+    const path = { ...viewport, path: 'M0 0L100 0L50 100Z' }
+    await cropImage(new Uint8Array(4), data, { viewport: path, canvas: { ...backend, createPath: (pathData) => ({ pathData }) } })
+
+    expect(canvases[0]!.calls.slice(0, 3)).toEqual([['scale', 1, 1], ['clip', { pathData: 'M0 0L100 0L50 100Z' }], ['setTransform', 1, 0, 0, 1, 0, 0]])
+  })
+
+  test('rejects path viewports without a way to create paths', async () => {
+    const { backend } = createBackend()
+    const path = { ...viewport, path: 'M0 0L100 0L50 100Z' }
+
+    await expect(cropImage(new Uint8Array(4), data, { viewport: path, canvas: backend })).rejects.toThrow('pass createPath')
+  })
+})
@@ -1,7 +1,14 @@
 import { describe, expect, test } from 'bun:test'
 import { clamp } from '../../src/utils/clamp.ts'
 import { debounce } from '../../src/utils/debounce.ts'
+import { formatLabel } from '../../src/utils/format.ts'
 import { aspectRatio, calculateInitialZoom } from '../../src/utils/image.ts'
+import {
+  DEFAULT_CORNER_RADIUS,
+  getCornerRadius,
+  getViewportPath,
+  isEllipticalViewport,
+} from '../../src/utils/viewport.ts'
 
 describe('clamp', () => {
   test('returns value when within range', () => {
@@ -38,6 +45,17 @@ describe('debounce', () => {
   })
 })
 
+describe('formatLabel', () => {
+  test('replaces placeholders with values', () => {
+    expect(formatLabel('Zoom {zoom}%', { zoom: 150 })).toBe('Zoom 150%')
+    expect(formatLabel('{x}% / {y}%', { x: 10, y: 'half' })).toBe('10% / half%')
+  })
+
+  test('keeps unknown placeholders', () => {
+    expect(formatLabel('Zoom {level}', { zoom: 1 })).toBe('Zoom {level}')
+  })
+})
+
 describe('aspectRatio', () => {
   test('calculates correct ratio for landscape', () => {
     expect(aspectRatio(1920, 1080)).toBeCloseTo(1.778, 2)
@@ -111,3 +129,56 @@ describe('calculateInitialZoom', () => {
     expect(zoom).toBe(0.1)
   })
 })
+
+describe('viewport shape', () => {
+  test('treats circle and ellipse viewports as elliptical', () => {
+    expect(isEllipticalViewport({ width: 200, height: 100, type: 'circle' })).toBe(true)
+    expect(isEllipticalViewport({ width: 200, height: 100, type: 'ellipse' })).toBe(true)
+    expect(isEllipticalViewport({ width: 200, height: 100, type: 'rounded' })).toBe(false)
+  })
+
+  test('uses the default corner radius for rounded viewports', () => {
+    expect(getCornerRadius({ width: 200, height: 100, type: 'rounded' })).toBe(DEFAULT_CORNER_RADIUS)
+  })
+
+  test('limits the corner radius to half the shorter side', () => {
+    expect(getCornerRadius({ width: 200, height: 100, type: 'rounded', radius: 80 })).toBe(50)
+  })
+
+  test('has no corner radius for other viewport types', () => {
+    expect(getCornerRadius({ width: 200, height: 100, type: 'square', radius: 20 })).toBe(0)
+  })
+})
+
+describe('getViewportPath', () => {
+  test('returns null without a path', () => {
+    expect(getViewportPath({ width: 200, height: 100, type: 'square' })).toBeNull()
+  })
+
+  test('converts polygon corners to path data', () => {
+    const path = getViewportPath({
+      width: 200,
+      height: 100,
+      type: 'square',
+      path: [[0, 0], [200, 0], [100, 100]],
+    })
+    expect(path).toEqual({ data: 'M0 0L200 0L100 100Z', width: 200, height: 100 })
+  })
+
+  test('uses the viewBox as coordinate system', () => {
+    const path = getViewportPath({
+      width: 200,
+      height: 100,
+      type: 'circle',
+      path: 'M0 0H1V1Z',
+      viewBox: { width: 1, height: 1 },
+    })
+    expect(path).toEqual({ data: 'M0 0H1V1Z', width: 1, height: 1 })
+  })
+
+  test('replaces the shape of the viewport type', () => {
+    const viewport = { width: 200, height: 100, type: 'rounded' as const, path: 'M0 0H1V1Z' }
+    expect(isEllipticalViewport({ ...viewport, type: 'ellipse' })).toBe(false)
+    expect(getCornerRadius(viewport)).toBe(0)
+  })
+})
@@ -57,4 +57,25 @@ describe("calculateBounds", () => {
 		expect(bounds.maxY).toBe(150);
 		expect(bounds.minY).toBe(-150);
 	});
+
+	it("swaps image dimensions for quarter-turn orientations", () => {
+		// Image 600x400 rotated 90 degrees is 400x600, viewport 200x100
+		const bounds = calculateBounds(600, 400, 1, 200, 100, 90);
+
+		// maxX = (400 - 200) / 2 = 100
+		// maxY = (600 - 100) / 2 = 250
+		expect(bounds.maxX).toBe(100);
+		expect(bounds.maxY).toBe(250);
+		expect(calculateBounds(600, 400, 1, 200, 100, 180)).toEqual(
+			calculateBounds(600, 400, 1, 200, 100),
+		);
+	});
+
+	it("uses the viewport bounding box for free angles", () => {
+		// A 100x100 viewport tilted 45 degrees needs ~141.4px along each image axis
+		const bounds = calculateBounds(400, 400, 1, 100, 100, 0, 45);
+
+		expect(bounds.maxX).toBeCloseTo((400 - 100 * Math.SQRT2) / 2);
+		expect(bounds.maxY).toBeCloseTo((400 - 100 * Math.SQRT2) / 2);
+	});
 });